@@ -1,76 +1,190 @@
 
 import React, { useEffect, useRef, useState, useCallback } from 'react';
 import { audioService } from './services/audioService';
-import { handTrackingService } from './services/handTrackingService';
-import { GameObject, GameObjectType, GameState, Particle, FloatingText, HandData, Cloud } from './types';
-
-// 核心常數
-const CANVAS_WIDTH = 1280;
-const CANVAS_HEIGHT = 720;
-const OBJECT_RADIUS = 40;
-
-// 穩定追蹤參數 (針對 iPad/Mobile 優化)
-const PERSISTENCE_FRAMES = 40; 
-const MAX_MATCH_DIST = 400; 
-const GRACE_PERIOD = 8; 
-
-// 效能優化參數
-// 進一步增加間隔至 70ms (約 14 FPS)，大幅減少運算
-const TRACKING_THROTTLE_MS = 70; 
-
-// Adaptive Smoothing Parameters
-const MIN_SMOOTHING = 0.15; 
-const MAX_SMOOTHING = 0.8;  
-const STABILITY_THRESHOLD = 1;
-
-const BIRD_EMOJIS = ['🦅', '🕊️', '🐦', '🦉', '🦜']; 
-
-interface TrackedHand extends HandData {
-  id: number;
-  alpha: number;
-  framesMissing: number;
-  framesDetected: number;
-  vx: number;
-  vy: number;
-}
+import { handTrackingService, LoadProgress, LoadStage } from './services/handTrackingService';
+import { CameraInputProvider, InputProvider, createInputProvider } from './services/inputProviders';
+import { ReplayInputProvider, SessionRecording, replayFrame, sessionRecorder } from './services/sessionRecorder';
+import { cosmeticRandom, randomSeed } from './services/random';
+import { metricsService } from './services/metricsService';
+import { patientStore } from './services/patientStore';
+import { SetPhase, setService } from './services/setService';
+import { difficultyService } from './services/difficultyService';
+import { OBJECT_TYPES, OBJECT_TYPE_ORDER, isTargetType } from './services/objectRegistry';
+import { fieldSide, neglectService } from './services/neglectService';
+import { LOCALE_NAMES, MessageKey, i18n, t } from './services/i18n';
+import { handMenuService } from './services/handMenuService';
+import { presenceService } from './services/presenceService';
+import { poseTrackingService } from './services/poseTrackingService';
+import { compensationService } from './services/compensationService';
+import { calibrationService, getReachAreaRatio } from './services/calibrationService';
+import { BILATERAL_WINDOW_MS } from './services/handRules';
+import { GameOutcome, gameService, isConfidentHand, isHandClosed } from './services/gameService';
+import SessionSummaryPanel from './components/SessionSummaryPanel';
+import PatientPicker from './components/PatientPicker';
+import ReplayControls from './components/ReplayControls';
+import ReportExport from './components/ReportExport';
+import SessionHistory from './components/SessionHistory';
+import ProgressDashboard from './components/ProgressDashboard';
+import HeatMap from './components/HeatMap';
+import HandCursors from './components/HandCursors';
+import { CANVAS_WIDTH, CANVAS_HEIGHT, DEFAULT_SETTINGS } from './constants';
+import { GameObjectType, GameState, Particle, FloatingText, Cloud, SessionSummary, GameSettings, PatientProfile, SessionRecord, CalibrationResult, HandSide, HandRule, TrackedHand, TrackingFilter, InputKind, SeedMode, SetGoal, FlightPath, MissPenalty, Locale, CompensationAction } from './types';
+
+const SIDE_LABELS: Record<HandSide, MessageKey> = { Left: 'side.left', Right: 'side.right' };
+const HAND_RULE_LABELS: Record<HandRule, MessageKey> = {
+  [HandRule.ANY]: 'handRule.any',
+  [HandRule.AFFECTED_ONLY]: 'handRule.affectedOnly',
+  [HandRule.ALTERNATE]: 'handRule.alternate',
+  [HandRule.BILATERAL]: 'handRule.bilateral',
+};
+const COMPENSATION_ACTION_LABELS: Record<CompensationAction, MessageKey> = {
+  [CompensationAction.FEEDBACK]: 'compensationAction.feedback',
+  [CompensationAction.REJECT]: 'compensationAction.reject',
+};
+const LOAD_STAGE_LABELS: Record<LoadStage, MessageKey> = {
+  'downloading': 'loadStage.downloading',
+  'compiling': 'loadStage.compiling',
+  'warming-up': 'loadStage.warmingUp',
+  'ready': 'loadStage.ready',
+};
+const INPUT_KIND_LABELS: Record<InputKind, MessageKey> = {
+  [InputKind.CAMERA]: 'inputKind.camera',
+  [InputKind.MOUSE]: 'inputKind.mouse',
+  [InputKind.TOUCH]: 'inputKind.touch',
+  [InputKind.KEYBOARD]: 'inputKind.keyboard',
+  [InputKind.SCRIPTED]: 'inputKind.scripted',
+};
+const TRACKING_FILTER_LABELS: Record<TrackingFilter, MessageKey> = {
+  [TrackingFilter.ADAPTIVE]: 'trackingFilter.adaptive',
+  [TrackingFilter.ONE_EURO]: 'trackingFilter.oneEuro',
+  [TrackingFilter.KALMAN]: 'trackingFilter.kalman',
+};
+
+const SET_GOAL_LABELS: Record<SetGoal, MessageKey> = {
+  [SetGoal.TIME]: 'setGoal.time',
+  [SetGoal.CATCHES]: 'setGoal.catches',
+};
+
+// 每種路線對應的訓練動作
+const FLIGHT_PATH_LABELS: Record<FlightPath, MessageKey> = {
+  [FlightPath.STRAIGHT]: 'flightPath.straight',
+  [FlightPath.SINE]: 'flightPath.sine',
+  [FlightPath.ARC]: 'flightPath.arc',
+  [FlightPath.FIGURE_EIGHT]: 'flightPath.figureEight',
+  [FlightPath.MIDLINE_DIAGONAL]: 'flightPath.midlineDiagonal',
+  [FlightPath.HOVER_DART]: 'flightPath.hoverDart',
+  [FlightPath.VERTICAL_RISE]: 'flightPath.verticalRise',
+};
+
+const MISS_PENALTY_LABELS: Record<MissPenalty, MessageKey> = {
+  [MissPenalty.NONE]: 'missPenalty.none',
+  [MissPenalty.POINTS]: 'missPenalty.points',
+  [MissPenalty.LIFE]: 'missPenalty.life',
+};
+
+const FIELD_LABELS: Record<HandSide, MessageKey> = { Left: 'field.left', Right: 'field.right' };
+
+const SEED_MODE_LABELS: Record<SeedMode, MessageKey> = {
+  [SeedMode.RANDOM]: 'seedMode.random',
+  [SeedMode.FIXED]: 'seedMode.fixed',
+  [SeedMode.REPEAT_LAST]: 'seedMode.repeatLast',
+};
+
+const VOLUME_CHANNELS = [
+  { volume: 'masterVolume', muted: 'masterMuted', label: 'volume.master' },
+  { volume: 'musicVolume', muted: 'musicMuted', label: 'volume.music' },
+  { volume: 'sfxVolume', muted: 'sfxMuted', label: 'volume.sfx' },
+] as const;
+
+// 自動暫停時提示雙手應放的位置 (畫面比例)
+const HAND_GUIDES: { side: HandSide; x: number; y: number }[] = [
+  { side: 'Left', x: 0.3, y: 0.55 },
+  { side: 'Right', x: 0.7, y: 0.55 },
+];
+const HAND_GUIDE_RADIUS = 80;
+
+const formatRatio = (ratio: number | null) => ratio === null ? '—' : i18n.formatPercent(ratio);
 
 export default function App() {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const requestRef = useRef<number>(0);
-  const frameCountRef = useRef(0);
-  const lastTrackingTimeRef = useRef<number>(0); // 記錄上次 AI 偵測的時間
   
-  const objectsRef = useRef<GameObject[]>([]);
   const particlesRef = useRef<Particle[]>([]);
   const floatingTextsRef = useRef<FloatingText[]>([]);
   const cloudsRef = useRef<Cloud[]>([]); 
-  const scoreRef = useRef(0);
-  const livesRef = useRef(5);
   const trackedHandsRef = useRef<TrackedHand[]>([]);
+  const inputProviderRef = useRef<InputProvider | null>(null);
   
   const isGameOverRef = useRef(false);
   const isPlayingRef = useRef(false);
   const isPausedRef = useRef(false);
+  const autoPausedRef = useRef(false);
+  const posturePromptRef = useRef(false);
+  const sessionStartedAtRef = useRef(0);
+  const seedRef = useRef(0);
+  // 重播狀態：錄影、重播用的輸入來源與目前幀數
+  const replayRef = useRef<{ recording: SessionRecording; provider: ReplayInputProvider; index: number; playing: boolean } | null>(null);
+  const beforeReplayRef = useRef<{ settings: GameSettings; calibration: CalibrationResult | null } | null>(null);
   
-  const [speedFactor, setSpeedFactor] = useState(1.0); 
-  const [spawnFreq, setSpawnFreq] = useState(1.2);
+  const [settings, setSettings] = useState<GameSettings>(DEFAULT_SETTINGS);
+  const { speedFactor, spawnFreq, initialLives, reachScale, handRule, affectedSide, graspMode, graspClosure, trackingFilter, seedMode, fixedSeed, setsEnabled, setCount, setGoal, setDurationSec, setTargetCatches, restSec, adaptiveDifficulty, targetSuccessRate, difficultyMin, difficultyMax, enabledObjects, flightPaths, missPenalty, missPenaltyPoints, masterVolume, musicVolume, sfxVolume, masterMuted, musicMuted, sfxMuted, audioCues, escapeWarningCue, neglectMode, neglectedSide, neglectSpawnBias, handMenu, dwellMs, palmPause, autoPause, autoPauseSec, poseTracking, trunkLeanMaxDeg, shoulderHikeMaxCm, compensationAction } = settings;
   const [highScore, setHighScore] = useState(0);
-  const [initialLives, setInitialLives] = useState(5);
+  const [patients, setPatients] = useState<PatientProfile[]>([]);
+  const [patientId, setPatientId] = useState<string | null>(null);
+  const patient = patients.find(p => p.id === patientId) ?? null;
+  const [calibration, setCalibration] = useState<CalibrationResult | null>(null);
+  const [previousCalibration, setPreviousCalibration] = useState<CalibrationResult | null>(null);
+  const [calibrationSide, setCalibrationSide] = useState<HandSide | null>(null);
+  const [calibrationSecs, setCalibrationSecs] = useState(0);
 
   const [gameState, setGameState] = useState<GameState & { isPaused: boolean }>({
-    score: 0, isPlaying: false, gameOver: false, lives: 5, highScore: 0, isPaused: false
+    score: 0, isPlaying: false, gameOver: false, lives: 5, highScore: 0, caught: 0, missed: 0, isPaused: false
   });
   const [trackerReady, setTrackerReady] = useState(false);
+  const [loadProgress, setLoadProgress] = useState<LoadProgress | null>(null);
+  const [recordEnabled, setRecordEnabled] = useState(false);
+  const [hasRecording, setHasRecording] = useState(false);
+  const [replayStatus, setReplayStatus] = useState<{ index: number; total: number; playing: boolean } | null>(null);
+  const [replayRequest, setReplayRequest] = useState(0);
+  const [replayError, setReplayError] = useState<string | null>(null);
+  const [inputKind, setInputKind] = useState<InputKind>(() => (localStorage.getItem('SKY_CATCH_INPUT') as InputKind) || InputKind.CAMERA);
   const [isShaking, setIsShaking] = useState(false);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [sessionSummary, setSessionSummary] = useState<SessionSummary | null>(null);
+  const [lastRecord, setLastRecord] = useState<SessionRecord | null>(null);
+  const [historyVersion, setHistoryVersion] = useState(0);
+  const [showDashboard, setShowDashboard] = useState(false);
+  const [clinicName, setClinicName] = useState(() => localStorage.getItem('SKY_CATCH_CLINIC') ?? '');
+  const [locale, setLocale] = useState<Locale>(() => i18n.getLocale());
+  const [poseStatus, setPoseStatus] = useState<'loading' | 'ready' | 'error' | null>(null);
+  const [autoPauseStatus, setAutoPauseStatus] = useState<{ countdownSecs: number | null } | null>(null);
+  const [showPosturePrompt, setShowPosturePrompt] = useState(false);
+  const [setStatus, setSetStatus] = useState<{ phase: SetPhase; index: number; count: number; remainingSecs: number | null; catches: number } | null>(null);
+  const [lastSeed, setLastSeed] = useState<number | null>(() => {
+    const saved = localStorage.getItem('SKY_CATCH_LAST_SEED');
+    return saved ? parseInt(saved) : null;
+  });
 
   useEffect(() => {
     const savedScore = localStorage.getItem('SKY_CATCH_HIGHSCORE');
     if (savedScore) setHighScore(parseInt(savedScore));
+    i18n.applyToDocument();
     
     initClouds();
 
+    patientStore.listPatients().then(list => {
+      setPatients(list);
+      const last = list.find(p => p.id === patientStore.getLastPatientId());
+      if (last) {
+        setPatientId(last.id);
+        setSettings(last.settings);
+        setHighScore(last.highScore);
+        setCalibration(last.calibration ?? null);
+        setLastSeed(last.lastSeed ?? null);
+      }
+    }).catch(err => console.error("病人資料載入失敗:", err));
+
     async function setup() {
       try {
         console.log("正在請求相機權限...");
@@ -94,21 +208,21 @@ export default function App() {
         }
         
         console.log("正在初始化 AI 模型...");
-        const success = await handTrackingService.initialize();
+        const success = await handTrackingService.initialize({ onProgress: setLoadProgress });
         if (success) {
             console.log("AI 模型準備完成");
             setTrackerReady(true);
         } else {
-            setErrorMessage("AI 模型載入失敗，請檢查網路連線");
+            setErrorMessage(t('error.modelLoad'));
         }
       } catch (err: any) {
         console.error("啟動失敗:", err);
         if (err.name === 'NotAllowedError' || err.name === 'PermissionDeniedError') {
-            setErrorMessage("請允許使用相機權限以進行遊戲 📷");
+            setErrorMessage(t('error.cameraPermission'));
         } else if (err.name === 'NotFoundError') {
-             setErrorMessage("找不到相機裝置 📷");
+             setErrorMessage(t('error.noCamera'));
         } else {
-            setErrorMessage(`初始化錯誤: ${err.message}`);
+            setErrorMessage(t('error.init', { message: err.message }));
         }
       }
     }
@@ -119,16 +233,126 @@ export default function App() {
     const clouds: Cloud[] = [];
     for (let i = 0; i < 8; i++) {
         clouds.push({
-            x: Math.random() * CANVAS_WIDTH,
-            y: Math.random() * (CANVAS_HEIGHT / 2),
-            speed: 0.2 + Math.random() * 0.4,
-            scale: 0.5 + Math.random() * 1.0,
-            opacity: 0.4 + Math.random() * 0.4
+            x: cosmeticRandom() * CANVAS_WIDTH,
+            y: cosmeticRandom() * (CANVAS_HEIGHT / 2),
+            speed: 0.2 + cosmeticRandom() * 0.4,
+            scale: 0.5 + cosmeticRandom() * 1.0,
+            opacity: 0.4 + cosmeticRandom() * 0.4
         });
     }
     cloudsRef.current = clouds;
   };
 
+  const updateSetting = <K extends keyof GameSettings>(key: K, value: GameSettings[K]) => {
+    setSettings(prev => ({ ...prev, [key]: value }));
+  };
+
+  const selectPatient = (id: string | null) => {
+    const next = patients.find(p => p.id === id) ?? null;
+    setPatientId(next?.id ?? null);
+    patientStore.setLastPatientId(next?.id ?? null);
+    setCalibration(next?.calibration ?? null);
+    setPreviousCalibration(null);
+    if (next) {
+      setSettings(next.settings);
+      setHighScore(next.highScore);
+      setLastSeed(next.lastSeed ?? null);
+    } else {
+      setHighScore(parseInt(localStorage.getItem('SKY_CATCH_HIGHSCORE') ?? '0'));
+      const savedSeed = localStorage.getItem('SKY_CATCH_LAST_SEED');
+      setLastSeed(savedSeed ? parseInt(savedSeed) : null);
+    }
+  };
+
+  const createPatient = async (name: string) => {
+    try {
+      const profile = await patientStore.createPatient(name, settings);
+      setPatients(prev => [...prev, profile].sort((a, b) => a.name.localeCompare(b.name)));
+      setPatientId(profile.id);
+      patientStore.setLastPatientId(profile.id);
+      setHighScore(0);
+      setLastSeed(null);
+      setCalibration(null);
+      setPreviousCalibration(null);
+    } catch (err) {
+      console.error("建立病人失敗:", err);
+    }
+  };
+
+  // 訪客的紀錄不會儲存，但仍可於結束畫面匯出報告
+  const buildSessionRecord = (summary: SessionSummary): SessionRecord => ({
+    id: Math.random().toString(36).slice(2), patientId: patient?.id ?? '', startedAt: sessionStartedAtRef.current,
+    score: gameService.getScore().score, seed: seedRef.current, settings, calibration: calibration ?? undefined, summary, events: metricsService.getEvents(),
+    difficulty: difficultyService.getCurve()
+  });
+
+  const saveSession = (record: SessionRecord) => {
+    if (!patient || replayRef.current) return;
+    const updated: PatientProfile = { ...patient, settings, highScore: Math.max(patient.highScore, gameService.getScore().score) };
+    setPatients(prev => prev.map(p => p.id === updated.id ? updated : p));
+    patientStore.savePatient(updated)
+      .then(() => patientStore.addSession(record))
+      .then(() => setHistoryVersion(v => v + 1))
+      .catch(err => console.error("儲存訓練紀錄失敗:", err));
+  };
+
+  // 依登記表順序保存，令相同種子抽出相同的物件
+  const toggleObjectType = (type: GameObjectType) => {
+    const next = enabledObjects.includes(type) ? enabledObjects.filter(t => t !== type) : [...enabledObjects, type];
+    updateSetting('enabledObjects', OBJECT_TYPE_ORDER.filter(t => next.includes(t)));
+  };
+
+  const toggleFlightPath = (path: FlightPath) => {
+    const next = flightPaths.includes(path) ? flightPaths.filter(p => p !== path) : [...flightPaths, path];
+    if (next.length === 0) return;
+    updateSetting('flightPaths', Object.values(FlightPath).filter(p => next.includes(p)));
+  };
+
+  const updateClinicName = (name: string) => {
+    setClinicName(name);
+    localStorage.setItem('SKY_CATCH_CLINIC', name);
+  };
+
+  // 先切換目錄再更新狀態，令重新繪製時使用新語言
+  const changeLocale = (next: Locale) => {
+    i18n.setLocale(next);
+    setLocale(next);
+  };
+
+  const getConfidentHands = () => trackedHandsRef.current.filter(isConfidentHand);
+
+  const startCalibration = () => {
+    calibrationService.start();
+    setCalibrationSide(calibrationService.getCurrentSide());
+  };
+
+  const cancelCalibration = () => {
+    calibrationService.cancel();
+    setCalibrationSide(null);
+  };
+
+  const finishCalibration = useCallback((result: CalibrationResult) => {
+    setPreviousCalibration(calibration);
+    setCalibration(result);
+    setCalibrationSide(null);
+    if (patient) {
+      const updated = { ...patient, calibration: result };
+      setPatients(prev => prev.map(p => p.id === updated.id ? updated : p));
+      patientStore.savePatient(updated).catch(err => console.error("儲存校準結果失敗:", err));
+    }
+  }, [patient, calibration]);
+
+  const updateCalibration = useCallback(() => {
+    if (!calibrationService.isActive()) return;
+    const result = calibrationService.update(getConfidentHands());
+    if (result) {
+      finishCalibration(result);
+    } else {
+      setCalibrationSide(calibrationService.getCurrentSide());
+      setCalibrationSecs(Math.ceil(calibrationService.getRemainingMs() / 1000));
+    }
+  }, [finishCalibration]);
+
   const triggerShake = () => {
     setIsShaking(false);
     setTimeout(() => setIsShaking(true), 10);
@@ -137,11 +361,11 @@ export default function App() {
 
   const createExplosion = (x: number, y: number, color: string) => {
     for (let i = 0; i < 15; i++) {
-      const angle = Math.random() * Math.PI * 2;
-      const speed = Math.random() * 5 + 3;
+      const angle = cosmeticRandom() * Math.PI * 2;
+      const speed = cosmeticRandom() * 5 + 3;
       particlesRef.current.push({
         id: Math.random().toString(36), x, y, vx: Math.cos(angle) * speed, vy: Math.sin(angle) * speed,
-        life: 1.0, color, size: Math.random() * 5 + 2
+        life: 1.0, color, size: cosmeticRandom() * 5 + 2
       });
     }
   };
@@ -154,115 +378,160 @@ export default function App() {
     isGameOverRef.current = true;
     isPlayingRef.current = false;
     isPausedRef.current = false;
+    autoPausedRef.current = false; posturePromptRef.current = false;
+    setAutoPauseStatus(null);
+    setShowPosturePrompt(false);
     audioService.stopMusic();
-    if (scoreRef.current > highScore) {
-      setHighScore(scoreRef.current);
-      localStorage.setItem('SKY_CATCH_HIGHSCORE', scoreRef.current.toString());
+    sessionRecorder.stop();
+    const summary = metricsService.getSummary();
+    const record = buildSessionRecord(summary);
+    setSessionSummary(summary);
+    setLastRecord(record);
+    saveSession(record);
+    const { score } = gameService.getScore();
+    if (score > highScore && !replayRef.current) {
+      setHighScore(score);
+      // 訪客模式沿用全域最高分，病人的最高分存於其檔案
+      if (!patient) localStorage.setItem('SKY_CATCH_HIGHSCORE', score.toString());
     }
     setGameState(prev => ({ 
-      ...prev, score: scoreRef.current, gameOver: true, isPlaying: false, isPaused: false,
-      highScore: Math.max(highScore, scoreRef.current) 
+      ...prev, score, gameOver: true, isPlaying: false, isPaused: false,
+      highScore: Math.max(highScore, score) 
     }));
-  }, [highScore]);
+  }, [highScore, patient, settings, calibration]);
+
+  // 重設一節訓練的遊戲狀態；重播時以錄製的種子重新開始
+  const resetSession = (seed: number) => {
+    particlesRef.current = []; floatingTextsRef.current = [];
+    seedRef.current = seed;
+    isGameOverRef.current = false; isPlayingRef.current = true; isPausedRef.current = false; autoPausedRef.current = false; posturePromptRef.current = false;
+    setAutoPauseStatus(null);
+    setShowPosturePrompt(false);
+    setGameState({ score: 0, lives: initialLives, isPlaying: true, gameOver: false, highScore, caught: 0, missed: 0, isPaused: false });
+    setSessionSummary(null);
+    setLastRecord(null);
+    setSetStatus(null);
+    gameService.start(seed, settings, calibration, { explosion: createExplosion, floatingText: createFloatingText, shake: triggerShake });
+    presenceService.start(autoPause && inputKind === InputKind.CAMERA ? { autoPauseSec } : null);
+  };
+
+  // 依設定決定本節的出鳥序列種子
+  const chooseSeed = () => {
+    if (seedMode === SeedMode.FIXED) return fixedSeed;
+    if (seedMode === SeedMode.REPEAT_LAST && lastSeed !== null) return lastSeed;
+    return randomSeed();
+  };
 
   const startGame = () => {
-    scoreRef.current = 0; livesRef.current = initialLives;
-    objectsRef.current = []; particlesRef.current = []; floatingTextsRef.current = [];
-    isGameOverRef.current = false; isPlayingRef.current = true; isPausedRef.current = false;
-    setGameState({ score: 0, lives: initialLives, isPlaying: true, gameOver: false, highScore, isPaused: false });
+    const seed = chooseSeed();
+    resetSession(seed);
+    setLastSeed(seed);
+    inputProviderRef.current?.reset();
+    sessionStartedAtRef.current = Date.now();
+    setHasRecording(recordEnabled);
+    if (!patient) localStorage.setItem('SKY_CATCH_LAST_SEED', seed.toString());
+    if (recordEnabled) {
+      sessionRecorder.start({ inputKind, seed, settings, calibration, width: CANVAS_WIDTH, height: CANVAS_HEIGHT });
+    }
+    if (patient) {
+      // 開始訓練時把目前的設定存為該病人的處方
+      const updated = { ...patient, settings, lastSeed: seed };
+      setPatients(prev => prev.map(p => p.id === updated.id ? updated : p));
+      patientStore.savePatient(updated).catch(err => console.error("儲存處方失敗:", err));
+    }
     audioService.startMusic();
     initClouds(); 
   };
 
   const togglePause = () => {
     if (!isPlayingRef.current || isGameOverRef.current) return;
+    if (autoPausedRef.current) {
+      // 自動暫停中按暫停：改為一般暫停並顯示暫停選單
+      autoPausedRef.current = false;
+      setAutoPauseStatus(null);
+      compensationService.resetBaseline();
+      setGameState(prev => ({ ...prev, isPaused: true }));
+      return;
+    }
+    if (posturePromptRef.current) {
+      // 坐姿提示中按暫停：同樣改為一般暫停，繼續後再次提示
+      posturePromptRef.current = false;
+      setShowPosturePrompt(false);
+      setGameState(prev => ({ ...prev, isPaused: true }));
+      return;
+    }
     isPausedRef.current = !isPausedRef.current;
     setGameState(prev => ({ ...prev, isPaused: isPausedRef.current }));
     if (isPausedRef.current) audioService.stopMusic();
-    else audioService.startMusic();
+    else if (setService.getPhase() !== 'rest') audioService.startMusic();
+  };
+
+  // 自動暫停沿用一般暫停的遊戲時鐘處理，但顯示另一個畫面，不顯示暫停選單
+  const setAutoPaused = (paused: boolean) => {
+    autoPausedRef.current = paused;
+    isPausedRef.current = paused;
+    setAutoPauseStatus(paused ? { countdownSecs: null } : null);
+    if (!paused) compensationService.resetBaseline();
+    if (paused) audioService.stopMusic();
+    else if (setService.getPhase() !== 'rest') audioService.startMusic();
+  };
+
+  // 坐姿提示同樣暫停遊戲時鐘而不顯示暫停選單，直至記錄好基準坐姿
+  const setPosturePrompt = (active: boolean) => {
+    posturePromptRef.current = active;
+    isPausedRef.current = active;
+    setShowPosturePrompt(active);
+    if (active) audioService.stopMusic();
+    else if (setService.getPhase() !== 'rest') audioService.startMusic();
   };
 
   const exitGame = () => {
-    isPlayingRef.current = false; isPausedRef.current = false; isGameOverRef.current = false;
+    isPlayingRef.current = false; isPausedRef.current = false; isGameOverRef.current = false; autoPausedRef.current = false; posturePromptRef.current = false;
+    setAutoPauseStatus(null);
+    setShowPosturePrompt(false);
     audioService.stopMusic();
+    sessionRecorder.stop();
     setGameState(prev => ({ ...prev, isPlaying: false, gameOver: false, isPaused: false }));
   };
 
-  const updateGameLogic = useCallback(() => {
-    if (!isPlayingRef.current || isGameOverRef.current || isPausedRef.current) return;
-    frameCountRef.current++;
-    
-    const spawnRate = Math.max(15, Math.floor((80 / spawnFreq) - (scoreRef.current / 50)));
-    
-    if (frameCountRef.current % spawnRate === 0) {
-      const isBomb = Math.random() < 0.18;
-      const radius = OBJECT_RADIUS;
-      const diff = speedFactor * (1 + (scoreRef.current / 1500)); 
-      let x, y, speedX, speedY;
-
-      if (isBomb) {
-        x = Math.random() * (CANVAS_WIDTH - radius * 2) + radius; y = -radius;
-        speedX = (Math.random() - 0.5) * 2 * diff; speedY = -(2 + Math.random() * 2) * diff; 
-      } else {
-        const side = Math.random(); 
-        if (side < 0.3) {
-            x = Math.random() * (CANVAS_WIDTH - radius * 2) + radius; y = CANVAS_HEIGHT + radius;
-            speedX = (Math.random() - 0.5) * 3 * diff; speedY = (1.5 + Math.random() * 2) * diff;
-        } else {
-            const isLeft = Math.random() < 0.5;
-            x = isLeft ? -radius : CANVAS_WIDTH + radius;
-            y = Math.random() * (CANVAS_HEIGHT * 0.7);
-            speedX = (isLeft ? 1 : -1) * (1.5 + Math.random() * 3) * diff; speedY = (Math.random() - 0.5) * 1.5 * diff;
-        }
-      }
-
-      objectsRef.current.push({
-        id: Math.random().toString(36), type: isBomb ? GameObjectType.BOMB : GameObjectType.BIRD,
-        x, y, radius, speedY, speedX, color: '', caught: false, 
-        emoji: isBomb ? '💣' : BIRD_EMOJIS[Math.floor(Math.random() * BIRD_EMOJIS.length)],
-        flapPhase: Math.random() * Math.PI * 2
-      });
+  // 遊戲邏輯之後更新背景、特效與畫面狀態 (遊戲迴圈與重播共用)
+  const applyGameOutcome = useCallback((outcome: GameOutcome | null) => {
+    if (outcome === 'over') {
+      endGame();
+      return;
     }
+    if (!isPlayingRef.current || isGameOverRef.current || metricsService.isPaused()) return;
 
     cloudsRef.current.forEach(cloud => {
         cloud.x += cloud.speed;
         if (cloud.x > CANVAS_WIDTH + 100) {
             cloud.x = -100;
-            cloud.y = Math.random() * (CANVAS_HEIGHT / 2);
+            cloud.y = cosmeticRandom() * (CANVAS_HEIGHT / 2);
         }
     });
-
-    objectsRef.current.forEach(obj => {
-      obj.y -= obj.speedY; obj.x += obj.speedX;
-      if (!obj.caught) {
-        for (const hand of trackedHandsRef.current) {
-            if (hand.framesDetected < STABILITY_THRESHOLD) continue;
-            
-            const dx = hand.x - obj.x; const dy = hand.y - obj.y;
-            if (Math.sqrt(dx * dx + dy * dy) < obj.radius + 60) {
-                obj.caught = true;
-                if (obj.type === GameObjectType.BIRD) {
-                    scoreRef.current += 10; audioService.playBirdSound();
-                    createExplosion(obj.x, obj.y, '#FFEB3B'); createFloatingText(obj.x, obj.y, "+10", "#FFD700");
-                } else {
-                    livesRef.current -= 1; audioService.playBombSound();
-                    createExplosion(obj.x, obj.y, '#FF5252'); triggerShake();
-                }
-                break;
-            }
-        }
-      }
-    });
-
-    objectsRef.current = objectsRef.current.filter(obj => !obj.caught && obj.y > -500 && obj.y < CANVAS_HEIGHT + 500 && obj.x > -500 && obj.x < CANVAS_WIDTH + 500);
     particlesRef.current.forEach(p => { p.x += p.vx; p.y += p.vy; p.life -= 0.025; p.vy += 0.12; });
     particlesRef.current = particlesRef.current.filter(p => p.life > 0);
     floatingTextsRef.current.forEach(t => { t.y -= 1.0; t.life -= 0.015; });
     floatingTextsRef.current = floatingTextsRef.current.filter(t => t.life > 0);
-    
-    if (livesRef.current <= 0) endGame();
-    else setGameState(prev => ({ ...prev, score: scoreRef.current, lives: livesRef.current }));
-  }, [speedFactor, spawnFreq, endGame]);
+
+    if (outcome === 'set-end' && !replayRef.current) audioService.stopMusic();
+    else if (outcome === 'set-start' && !replayRef.current) audioService.startMusic();
+    if (setService.isEnabled()) {
+      const remainingMs = setService.getRemainingMs(metricsService.now());
+      const next = {
+        phase: setService.getPhase(), index: setService.getSetIndex(), count: setService.getSetCount(),
+        remainingSecs: remainingMs === null ? null : Math.ceil(remainingMs / 1000), catches: metricsService.getSetCatches()
+      };
+      setSetStatus(prev => prev && prev.phase === next.phase && prev.index === next.index && prev.remainingSecs === next.remainingSecs && prev.catches === next.catches ? prev : next);
+    }
+    const { score, lives, caught, missed } = gameService.getScore();
+    setGameState(prev => ({ ...prev, score, lives, caught, missed }));
+  }, [endGame]);
+
+  const updateGameLogic = useCallback(() => {
+    if (!isPlayingRef.current || isGameOverRef.current) return;
+    applyGameOutcome(gameService.update(trackedHandsRef.current));
+  }, [applyGameOutcome]);
 
   const draw = useCallback((ctx: CanvasRenderingContext2D) => {
     ctx.setTransform(1, 0, 0, 1, 0, 0);
@@ -321,29 +590,66 @@ export default function App() {
     ctx.fill();
     ctx.restore();
 
+    // 3.5 半側忽略提示：被忽略側有目標時邊緣發光，並在中線以箭嘴指向目標；病人察覺改善後逐漸減弱
+    const neglected = neglectService.getSide();
+    const cueStrength = neglectService.getCueStrength();
+    const cuePulse = 0.5 + 0.5 * Math.sin(Date.now() / 250);
+    const cuedObjects = neglected && cueStrength > 0
+      ? gameService.getObjects().filter(obj => obj.field && !obj.caught && obj.x >= 0 && obj.x <= CANVAS_WIDTH && fieldSide(obj.x, CANVAS_WIDTH) === neglected)
+      : [];
+    if (neglected && cuedObjects.length > 0) {
+      const glowWidth = 100;
+      const glowX = neglected === 'Left' ? 0 : CANVAS_WIDTH - glowWidth;
+      const glow = ctx.createLinearGradient(neglected === 'Left' ? 0 : CANVAS_WIDTH, 0, neglected === 'Left' ? glowWidth : CANVAS_WIDTH - glowWidth, 0);
+      glow.addColorStop(0, `rgba(255,235,59,${(0.3 + 0.4 * cuePulse) * cueStrength})`); glow.addColorStop(1, 'rgba(255,235,59,0)');
+      ctx.save(); ctx.fillStyle = glow; ctx.fillRect(glowX, 0, glowWidth, CANVAS_HEIGHT); ctx.restore();
+    }
+
+    // 3.6 代償動作：畫面四周柔和的琥珀色光暈，提示坐直
+    if (compensationService.isCompensating() && isPlayingRef.current && !isPausedRef.current) {
+      const vignette = ctx.createRadialGradient(CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2, CANVAS_HEIGHT * 0.45, CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2, CANVAS_WIDTH * 0.65);
+      vignette.addColorStop(0, 'rgba(255,183,77,0)'); vignette.addColorStop(1, 'rgba(255,183,77,0.45)');
+      ctx.save(); ctx.fillStyle = vignette; ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT); ctx.restore();
+    }
+
     // 4. 物件
-    objectsRef.current.forEach(obj => {
-      ctx.save();
-      let scaleX = 1, scaleY = 1, rotation = 0;
-      if (obj.type === GameObjectType.BIRD) {
-          const flap = Math.sin(Date.now() * 0.02 + obj.flapPhase);
-          scaleY = 1 + flap * 0.3; scaleX = 1 - Math.abs(flap) * 0.15;
-          rotation = flap * 0.1; if (obj.speedX > 0) scaleX *= -1;
-      } else {
-          const pulse = Math.sin(Date.now() / 200) * 0.12;
-          scaleX = 1 + pulse; scaleY = 1 + pulse;
+    gameService.getObjects().forEach(obj => {
+      // 雙手合作鳥：左右半圈分別顯示哪隻手已碰到
+      if (obj.twoHanded) {
+        const now = metricsService.now();
+        (['Left', 'Right'] as HandSide[]).forEach(side => {
+          const touchedAt = obj.touches?.[side];
+          const active = touchedAt !== undefined && now - touchedAt <= BILATERAL_WINDOW_MS;
+          ctx.save();
+          ctx.strokeStyle = active ? "#FFEB3B" : "rgba(255,255,255,0.8)";
+          ctx.lineWidth = active ? 8 : 4;
+          if (!active) ctx.setLineDash([10, 8]);
+          ctx.beginPath();
+          ctx.arc(obj.x, obj.y, obj.radius + 25, side === 'Left' ? Math.PI / 2 : -Math.PI / 2, side === 'Left' ? Math.PI * 1.5 : Math.PI / 2);
+          ctx.stroke();
+          ctx.restore();
+        });
       }
-      ctx.translate(obj.x, obj.y); ctx.rotate(rotation); ctx.scale(scaleX, scaleY);
-      
-      // 關鍵修正：iOS Emoji 渲染修復
-      ctx.fillStyle = '#000000'; // 強制重設為黑色，防止使用漸變色填滿 Emoji
-      ctx.font = '80px "Apple Color Emoji", "Segoe UI Emoji", "Segoe UI Symbol", Arial'; 
-      ctx.textAlign = 'center'; ctx.textBaseline = 'middle';
-      ctx.fillText(obj.emoji, 0, 0);
+
+      OBJECT_TYPES[obj.type].render(ctx, obj, metricsService.now());
+    });
+    cuedObjects.forEach(obj => {
+      // 目標已貼近中線時不需要箭嘴
+      if (Math.abs(obj.x - CANVAS_WIDTH / 2) < 150) return;
+      const dir = neglected === 'Left' ? -1 : 1;
+      ctx.save();
+      ctx.globalAlpha = cueStrength;
+      ctx.translate(CANVAS_WIDTH / 2 + dir * (40 + cuePulse * 20), obj.y); ctx.scale(dir, 1);
+      ctx.fillStyle = "#FFEB3B"; ctx.strokeStyle = "rgba(0,0,0,0.25)"; ctx.lineWidth = 3;
+      ctx.beginPath(); ctx.moveTo(30, 0); ctx.lineTo(-15, -28); ctx.lineTo(-15, 28); ctx.closePath(); ctx.fill(); ctx.stroke();
       ctx.restore();
     });
 
     // 5. 特效
+    gameService.getEscapeCues().forEach(c => {
+      ctx.save(); ctx.globalAlpha = c.life * 0.6; ctx.strokeStyle = "#FFFFFF"; ctx.lineWidth = 4; ctx.setLineDash([8, 8]);
+      ctx.beginPath(); ctx.arc(c.x, c.y, 30 + (1 - c.life) * 30, 0, Math.PI * 2); ctx.stroke(); ctx.restore();
+    });
     particlesRef.current.forEach(p => {
       ctx.save(); ctx.globalAlpha = p.life; ctx.fillStyle = p.color;
       ctx.beginPath(); ctx.arc(p.x, p.y, p.size, 0, Math.PI * 2); ctx.fill(); ctx.restore();
@@ -353,6 +659,41 @@ export default function App() {
       ctx.fillText(t.text, t.x, t.y); ctx.restore();
     });
 
+    // 5.5 校準中：顯示已記錄的可達範圍
+    if (calibrationService.isActive()) {
+      const reach = calibrationService.getReach();
+      (['Left', 'Right'] as HandSide[]).forEach(side => {
+        const b = reach[side];
+        if (!b) return;
+        ctx.save();
+        ctx.fillStyle = side === 'Left' ? "rgba(255,235,59,0.25)" : "rgba(255,255,255,0.25)";
+        ctx.strokeStyle = side === 'Left' ? "#FFEB3B" : "#FFFFFF";
+        ctx.lineWidth = 4; ctx.setLineDash([12, 8]);
+        ctx.fillRect(b.minX, b.minY, b.maxX - b.minX, b.maxY - b.minY);
+        ctx.strokeRect(b.minX, b.minY, b.maxX - b.minX, b.maxY - b.minY);
+        ctx.restore();
+      });
+    }
+
+    // 5.6 自動暫停：虛線圓圈提示雙手應放的位置
+    if (autoPausedRef.current) {
+      HAND_GUIDES.forEach(guide => {
+        const x = guide.x * CANVAS_WIDTH, y = guide.y * CANVAS_HEIGHT;
+        ctx.save();
+        ctx.strokeStyle = "rgba(255,255,255,0.9)"; ctx.fillStyle = "rgba(255,255,255,0.15)";
+        ctx.lineWidth = 6; ctx.setLineDash([16, 12]);
+        ctx.beginPath(); ctx.arc(x, y, HAND_GUIDE_RADIUS, 0, Math.PI * 2); ctx.fill(); ctx.stroke();
+        ctx.globalAlpha = 0.4;
+        ctx.translate(x, y);
+        if (guide.side === 'Left') ctx.scale(-1, 1);
+        ctx.fillStyle = '#000000';
+        ctx.font = `90px "Apple Color Emoji", "Segoe UI Emoji", "Segoe UI Symbol", Arial`;
+        ctx.textAlign = 'center'; ctx.textBaseline = 'middle';
+        ctx.fillText('✋', 0, 0);
+        ctx.restore();
+      });
+    }
+
     // 6. 手掌
     trackedHandsRef.current.forEach(h => {
       const entryOpacity = Math.min(1, h.framesDetected / 2);
@@ -367,7 +708,24 @@ export default function App() {
       g.addColorStop(0, h.framesMissing > 0 ? "rgba(255,255,255,0.4)" : "rgba(255,255,255,0.9)"); 
       g.addColorStop(1, "transparent");
       ctx.fillStyle = g; ctx.beginPath(); ctx.arc(h.x, h.y, glowSize, 0, Math.PI * 2); ctx.fill();
+
+      const closed = isHandClosed(h.openness, graspClosure);
+      if (graspMode) {
+        // 握拳進度圈：合上程度達到設定值時變成滿圈
+        const progress = Math.min(1, (1 - h.openness) / graspClosure);
+        ctx.strokeStyle = closed ? "#FFEB3B" : "rgba(255,255,255,0.9)";
+        ctx.lineWidth = 6;
+        ctx.beginPath(); ctx.arc(h.x, h.y, 55, -Math.PI / 2, -Math.PI / 2 + progress * Math.PI * 2); ctx.stroke();
+      }
       
+      const palmHold = handMenuService.getPalmHold();
+      if (palmHold && palmHold.handId === h.id) {
+        // 張開手掌暫停的進度圈
+        ctx.strokeStyle = "#E1F5FE";
+        ctx.lineWidth = 8;
+        ctx.beginPath(); ctx.arc(h.x, h.y, 68, -Math.PI / 2, -Math.PI / 2 + palmHold.progress * Math.PI * 2); ctx.stroke();
+      }
+
       ctx.translate(h.x, h.y); 
       if (h.side === 'Left') ctx.scale(-1, 1);
       
@@ -375,127 +733,235 @@ export default function App() {
       ctx.fillStyle = '#000000';
       ctx.font = `${h.framesMissing > 0 ? 60 : 80}px "Apple Color Emoji", "Segoe UI Emoji", "Segoe UI Symbol", Arial`; 
       ctx.textAlign = 'center'; ctx.textBaseline = 'middle';
-      ctx.fillText('✋', 0, 0); 
+      ctx.fillText(closed ? '✊' : '✋', 0, 0); 
       ctx.restore();
     });
 
     // 移除 Canvas 的暫停文字，改用 DOM Overlay
-  }, []);
+  }, [graspMode, graspClosure]);
 
-  // AI 偵測主邏輯 (重型運算)
-  const runDetection = useCallback(() => {
-    if (!videoRef.current || !trackerReady) return;
-    const res = handTrackingService.detect(videoRef.current);
-    const detections: { x: number, y: number, side: 'Left' | 'Right' }[] = [];
-    if (res && res.landmarks) {
-      res.landmarks.forEach((landmarkSet, i) => {
-          const landmark = landmarkSet[9]; 
-          detections.push({
-            x: (1 - landmark.x) * CANVAS_WIDTH, y: landmark.y * CANVAS_HEIGHT,
-            side: (res.handedness[i]?.[0].categoryName === 'Left' ? 'Right' : 'Left') as 'Left' | 'Right'
-          });
-      });
+  // 切換輸入來源：鏡頭、滑鼠、觸控、鍵盤或示範腳本
+  useEffect(() => {
+    if (!canvasRef.current || !videoRef.current) return;
+    localStorage.setItem('SKY_CATCH_INPUT', inputKind);
+    const provider = createInputProvider(inputKind, { canvas: canvasRef.current, video: videoRef.current, width: CANVAS_WIDTH, height: CANVAS_HEIGHT }, trackingFilter);
+    provider.start();
+    inputProviderRef.current = provider;
+    trackedHandsRef.current = [];
+    return () => { provider.stop(); inputProviderRef.current = null; };
+  }, [inputKind]);
+
+  useEffect(() => {
+    if (inputProviderRef.current instanceof CameraInputProvider) inputProviderRef.current.setFilter(trackingFilter);
+  }, [trackingFilter, inputKind]);
+
+  // 免觸控操作：選單開啟時以手部游標停留選擇，遊戲中張開手掌停定即暫停 (只限鏡頭輸入)
+  const updateHandControls = useCallback((now: number) => {
+    const hands = inputKind === InputKind.CAMERA ? getConfidentHands() : [];
+    const menuOpen = !isPlayingRef.current || (isPausedRef.current && !autoPausedRef.current && !posturePromptRef.current);
+    if (handMenu && menuOpen && !calibrationService.isActive()) {
+      // 游標對應整個視窗而非畫布，選單面板比畫布高時仍可到達每一部分
+      handMenuService.update(hands.map(h => ({
+        id: h.id, x: (h.x / CANVAS_WIDTH) * window.innerWidth, y: (h.y / CANVAS_HEIGHT) * window.innerHeight
+      })), now);
+    } else {
+      handMenuService.clear();
+    }
+    if (palmPause && !menuOpen && !autoPausedRef.current && !isGameOverRef.current) {
+      if (handMenuService.updatePalmHold(hands, now)) togglePause();
+    } else {
+      handMenuService.resetPalmHold();
     }
+  }, [inputKind, handMenu, palmPause]);
 
-    const nextHands: TrackedHand[] = [];
-    const usedDetections = new Set<number>();
+  useEffect(() => {
+    handMenuService.setDwellMs(dwellMs);
+  }, [dwellMs]);
 
-    trackedHandsRef.current.forEach(hand => {
-      const predX = hand.x + hand.vx * 0.8;
-      const predY = hand.y + hand.vy * 0.8;
-      let bestIdx = -1; let bestDist = MAX_MATCH_DIST;
+  // 姿勢模型只在開啟代償偵測時才載入
+  useEffect(() => {
+    if (!poseTracking || inputKind !== InputKind.CAMERA || !trackerReady) return;
+    if (poseTrackingService.isReady()) {
+      setPoseStatus('ready');
+      return;
+    }
+    setPoseStatus('loading');
+    poseTrackingService.initialize().then(ok => setPoseStatus(ok ? 'ready' : 'error'));
+  }, [poseTracking, inputKind, trackerReady]);
 
-      detections.forEach((det, idx) => {
-        if (usedDetections.has(idx)) return;
-        const d = Math.sqrt(Math.pow(det.x - predX, 2) + Math.pow(det.y - predY, 2));
-        const sideBonus = (hand.side === det.side) ? 0.6 : 1.0; 
-        const weightedDist = d * sideBonus;
-        if (weightedDist < bestDist) { bestDist = weightedDist; bestIdx = idx; }
-      });
+  // 自動暫停：以實際時間計算，一般暫停及組間休息時不計
+  const updatePresence = (now: number) => {
+    const active = isPlayingRef.current && !isGameOverRef.current && (!isPausedRef.current || autoPausedRef.current) && setService.getPhase() !== 'rest';
+    if (!active) {
+      presenceService.reset();
+      return;
+    }
+    const transition = presenceService.update(getConfidentHands().length > 0, now);
+    if (transition === 'away') setAutoPaused(true);
+    else if (transition === 'resume') setAutoPaused(false);
+    if (!autoPausedRef.current) return;
+    const countdownMs = presenceService.getCountdownMs(now);
+    const countdownSecs = countdownMs === null ? null : Math.ceil(countdownMs / 1000);
+    setAutoPauseStatus(prev => prev?.countdownSecs === countdownSecs ? prev : { countdownSecs });
+  };
 
-      if (bestIdx !== -1) {
-        const det = detections[bestIdx]; 
-        usedDetections.add(bestIdx);
-        const moveDist = Math.sqrt(Math.pow(det.x - hand.x, 2) + Math.pow(det.y - hand.y, 2));
-        const adaptiveAlpha = MIN_SMOOTHING + (Math.min(moveDist, 150) / 150) * (MAX_SMOOTHING - MIN_SMOOTHING);
-        const smoothX = hand.x + (det.x - hand.x) * adaptiveAlpha;
-        const smoothY = hand.y + (det.y - hand.y) * adaptiveAlpha;
-        nextHands.push({
-          ...hand, x: smoothX, y: smoothY, vx: smoothX - hand.x, vy: smoothY - hand.y,
-          framesMissing: 0, alpha: 1.0, framesDetected: hand.framesDetected + 1, side: det.side
-        });
-      } else if (hand.framesMissing < PERSISTENCE_FRAMES) {
-        const damping = 0.9;
-        const nextVx = hand.vx * damping; const nextVy = hand.vy * damping;
-        const nextFramesMissing = hand.framesMissing + 1;
-        let newAlpha = hand.alpha;
-        if (nextFramesMissing > GRACE_PERIOD) {
-           newAlpha = Math.max(0, hand.alpha - 0.05); 
-        }
-        nextHands.push({
-          ...hand, x: hand.x + nextVx, y: hand.y + nextVy, vx: nextVx, vy: nextVy,
-          framesMissing: nextFramesMissing, framesDetected: hand.framesDetected, alpha: newAlpha
-        });
-      }
-    });
+  // 姿勢追蹤只在遊戲進行中及坐姿提示時運行；回傳 undefined 代表本幀未偵測
+  const detectPose = (now: number) => {
+    if (!compensationService.isEnabled() || !videoRef.current) return undefined;
+    if (!isPlayingRef.current || (isPausedRef.current && !posturePromptRef.current) || isGameOverRef.current) return undefined;
+    const pose = poseTrackingService.detect(videoRef.current, now);
+    if (pose !== undefined) compensationService.update(pose);
+    return pose;
+  };
 
-    detections.forEach((det, idx) => {
-      if (!usedDetections.has(idx)) {
-        nextHands.push({ 
-          id: Date.now() + idx, x: det.x, y: det.y, vx: 0, vy: 0, side: det.side, alpha: 1.0, framesMissing: 0, framesDetected: 1 
-        });
-      }
-    });
-    trackedHandsRef.current = nextHands;
-  }, [trackerReady]);
-
-  // 輕量物理補間 (在 AI 沒跑的幀運行)
-  const updateHandPhysics = useCallback(() => {
-    trackedHandsRef.current.forEach(hand => {
-        // 利用慣性移動手部，即使 AI 這幀沒有偵測
-        // 因為偵測間隔變長 (70ms)，這裡的慣性系數要調低，避免衝過頭
-        hand.x += hand.vx * 0.3; 
-        hand.y += hand.vy * 0.3;
-        // 增加摩擦力
-        hand.vx *= 0.8;
-        hand.vy *= 0.8;
-    });
-  }, []);
+  // 開始時及自動暫停後回來時，先請病人坐直，記錄代償偵測的基準坐姿才出鳥
+  const updatePosture = () => {
+    if (posturePromptRef.current) {
+      if (compensationService.hasBaseline()) setPosturePrompt(false);
+      return;
+    }
+    const needed = compensationService.isEnabled() && !compensationService.hasBaseline() && poseTrackingService.isReady();
+    if (needed && isPlayingRef.current && !isPausedRef.current && !isGameOverRef.current) setPosturePrompt(true);
+  };
+
+  // 每幀開始：暫停於幀的邊界生效，之後本幀的遊戲邏輯以此為準，重播時才能完全重現
+  const beginFrame = (now: number) => gameService.beginFrame(now, isPausedRef.current, autoPausedRef.current);
+
+  // 重播一幀錄影，已到結尾時回傳 false
+  const stepReplay = useCallback(() => {
+    const replay = replayRef.current;
+    if (!replay || replay.index >= replay.recording.frames.length) return false;
+    const frame = replay.recording.frames[replay.index++];
+    const wasAutoPaused = autoPausedRef.current;
+    const autoPaused = frame.autoPaused ?? false;
+    isPausedRef.current = frame.paused;
+    autoPausedRef.current = autoPaused;
+    if (autoPaused !== wasAutoPaused) setAutoPauseStatus(autoPaused ? { countdownSecs: null } : null);
+    const { hands, outcome } = replayFrame(frame, replay.provider, wasAutoPaused);
+    trackedHandsRef.current = hands;
+    // 錄影中的坐姿提示已記錄為暫停幀，這裏只還原提示畫面
+    const prompting = frame.paused && !autoPaused && compensationService.isEnabled() && !compensationService.hasBaseline();
+    if (prompting !== posturePromptRef.current) {
+      posturePromptRef.current = prompting;
+      setShowPosturePrompt(prompting);
+    }
+    applyGameOutcome(outcome);
+    return true;
+  }, [applyGameOutcome]);
+
+  const updateReplayStatus = () => {
+    const replay = replayRef.current;
+    if (replay) setReplayStatus({ index: replay.index, total: replay.recording.frames.length, playing: replay.playing });
+  };
+
+  // 由頭重新模擬至指定幀 (快轉時不發出音效)
+  const seekReplay = (target: number) => {
+    const replay = replayRef.current;
+    if (!replay) return;
+    resetSession(replay.recording.seed);
+    replay.provider = new ReplayInputProvider(replay.recording);
+    replay.index = 0;
+    audioService.setEffectsMuted(true);
+    while (replay.index < target && stepReplay()) { /* 快轉 */ }
+    audioService.setEffectsMuted(false);
+    updateReplayStatus();
+  };
+
+  useEffect(() => {
+    if (replayRequest > 0) seekReplay(0);
+  }, [replayRequest]);
+
+  const loadReplay = async (file: File) => {
+    try {
+      const recording = await sessionRecorder.load(file);
+      if (!beforeReplayRef.current) beforeReplayRef.current = { settings, calibration };
+      setReplayError(null);
+      setSettings({ ...DEFAULT_SETTINGS, ...recording.settings });
+      setCalibration(recording.calibration);
+      replayRef.current = { recording, provider: new ReplayInputProvider(recording), index: 0, playing: true };
+      // 待設定套用後才開始重播
+      setReplayRequest(n => n + 1);
+    } catch (err: any) {
+      console.error("錄影載入失敗:", err);
+      setReplayError(err.message);
+    }
+  };
+
+  const toggleReplayPlaying = () => {
+    const replay = replayRef.current;
+    if (!replay) return;
+    if (replay.index >= replay.recording.frames.length) seekReplay(0);
+    replay.playing = !replay.playing;
+    updateReplayStatus();
+  };
+
+  const exitReplay = () => {
+    const before = beforeReplayRef.current;
+    replayRef.current = null;
+    beforeReplayRef.current = null;
+    setReplayStatus(null);
+    if (before) {
+      setSettings(before.settings);
+      setCalibration(before.calibration);
+    }
+    exitGame();
+  };
 
   const loop = useCallback(() => {
-    if (!canvasRef.current || !videoRef.current) return;
-    const ctx = canvasRef.current.getContext('2d');
-    if (!ctx) return;
-    
-    const now = performance.now();
-    
-    // 效能優化核心：限制 AI 偵測頻率 (約 14 FPS)
-    if (now - lastTrackingTimeRef.current >= TRACKING_THROTTLE_MS) {
-        runDetection();
-        lastTrackingTimeRef.current = now;
+    // 畫布未掛載時 (例如鏡頭錯誤畫面) 仍繼續排程，改用其他輸入後即可恢復
+    const ctx = canvasRef.current && videoRef.current ? canvasRef.current.getContext('2d') : null;
+    if (!ctx) {
+      requestRef.current = requestAnimationFrame(loop);
+      return;
+    }
+
+    const replay = replayRef.current;
+    if (replay) {
+      handMenuService.clear();
+      if (replay.playing) {
+        if (!stepReplay()) replay.playing = false;
+        updateReplayStatus();
+      }
     } else {
-        // 在 AI 休息的幀，使用物理預測移動手部，保持 60 FPS 流暢感
-        updateHandPhysics();
+      const now = performance.now();
+      beginFrame(now);
+      const provider = inputProviderRef.current;
+      if (provider) {
+        trackedHandsRef.current = provider.update(now);
+        const pose = provider instanceof CameraInputProvider ? detectPose(now) : undefined;
+        sessionRecorder.recordFrame(now, isPausedRef.current, autoPausedRef.current, provider, trackedHandsRef.current, pose);
+      }
+      updateCalibration();
+      updatePosture();
+      updatePresence(now);
+      updateHandControls(now);
+      updateGameLogic();
     }
-    
-    updateGameLogic();
     draw(ctx);
     requestRef.current = requestAnimationFrame(loop);
-  }, [runDetection, updateHandPhysics, updateGameLogic, draw]);
+  }, [stepReplay, updateCalibration, updateHandControls, updateGameLogic, draw]);
+
+  useEffect(() => {
+    audioService.setMixer({ masterVolume, musicVolume, sfxVolume, masterMuted, musicMuted, sfxMuted });
+  }, [masterVolume, musicVolume, sfxVolume, masterMuted, musicMuted, sfxMuted]);
 
   useEffect(() => {
     requestRef.current = requestAnimationFrame(loop);
     return () => { if (requestRef.current) cancelAnimationFrame(requestRef.current); audioService.stopMusic(); };
   }, [loop]);
 
-  if (errorMessage) {
+  // 鏡頭無法使用時仍可改用觸控或滑鼠進行
+  if (errorMessage && inputKind === InputKind.CAMERA) {
       return (
           <div className="w-full h-full flex flex-col items-center justify-center bg-zinc-900 text-white p-6 text-center z-50">
               <div className="text-6xl mb-4">⚠️</div>
-              <h1 className="text-3xl font-bold mb-2">無法啟動遊戲</h1>
+              <h1 className="text-3xl font-bold mb-2">{t('error.title')}</h1>
               <p className="text-xl text-zinc-400 max-w-md">{errorMessage}</p>
               <button onClick={() => window.location.reload()} className="mt-8 px-8 py-3 bg-blue-600 rounded-full font-bold hover:bg-blue-500 transition-colors shadow-lg">
-                  重新整理頁面
+                  {t('error.reload')}
+              </button>
+              <button onClick={() => setInputKind(navigator.maxTouchPoints > 0 ? InputKind.TOUCH : InputKind.MOUSE)} className="mt-4 px-8 py-3 bg-zinc-700 rounded-full font-bold hover:bg-zinc-600 transition-colors shadow-lg">
+                  {t(navigator.maxTouchPoints > 0 ? 'error.useTouch' : 'error.useMouse')}
               </button>
           </div>
       );
@@ -512,28 +978,67 @@ export default function App() {
         <>
           <div className="absolute top-4 left-4 flex flex-col gap-2 pointer-events-none select-none">
             <div className="bg-white/30 backdrop-blur-md p-4 rounded-3xl text-white border border-white/20 shadow-lg scale-90 origin-top-left">
-              <div className="text-3xl font-black text-yellow-300 drop-shadow-md">得分: {gameState.score}</div>
-              <div className="text-xl mt-1">生命: {'❤️'.repeat(gameState.lives)}</div>
+              <div className="text-3xl font-black text-yellow-300 drop-shadow-md">{t('hud.score', { score: gameState.score })}</div>
+              <div className="text-xl mt-1 font-bold">{t('hud.tally', { caught: gameState.caught, missed: gameState.missed })}</div>
+              {setStatus ? (
+                <div className="text-xl mt-1 font-bold">
+                  {t('hud.set', { index: setStatus.index + 1, count: setStatus.count })}
+                  {setStatus.phase === 'active' && ` · ${setStatus.remainingSecs !== null ? t('unit.seconds', { count: setStatus.remainingSecs }) : t('unit.birdsOf', { count: setStatus.catches, target: setTargetCatches })}`}
+                </div>
+              ) : (
+                <div className="text-xl mt-1">{t('hud.lives', { hearts: '❤️'.repeat(gameState.lives) })}</div>
+              )}
             </div>
           </div>
           {/* 右上角只保留暫停按鈕 */}
-          <div className="absolute top-4 right-4 flex gap-3">
-            <button onClick={togglePause} className="bg-white/40 backdrop-blur-md p-3 px-6 rounded-2xl text-white text-2xl hover:bg-white/60 active:scale-90 transition-all shadow-lg font-bold">
-                ⏸️ 暫停
-            </button>
-          </div>
+          {!replayStatus && (
+            <div className="absolute top-4 right-4 flex gap-3">
+              <button onClick={togglePause} className="bg-white/40 backdrop-blur-md p-3 px-6 rounded-2xl text-white text-2xl hover:bg-white/60 active:scale-90 transition-all shadow-lg font-bold">
+                  {t('hud.pause')}
+              </button>
+            </div>
+          )}
           
+          {setStatus?.phase === 'rest' && !gameState.isPaused && (
+            <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 z-40 bg-white/90 backdrop-blur-md px-10 py-8 rounded-[40px] text-center shadow-2xl border-b-[8px] border-sky-300 pointer-events-none select-none">
+              <p className="text-4xl font-black text-sky-600">{t('rest.title')}</p>
+              <p className="text-xl font-bold text-gray-500 mt-2">{t('rest.setDone', { index: setStatus.index + 1 })}</p>
+              <p className="text-6xl font-black text-sky-500 mt-4 tabular-nums">{setStatus.remainingSecs}</p>
+              <p className="text-lg font-bold text-gray-400">{t('rest.nextSet', { index: setStatus.index + 2 })}</p>
+            </div>
+          )}
+
+          {/* 自動暫停：提示把手放回畫面，虛線圓圈畫在畫布上 */}
+          {autoPauseStatus && (
+            <div className="absolute top-6 left-1/2 -translate-x-1/2 z-40 bg-white/90 backdrop-blur-md px-10 py-6 rounded-[40px] text-center shadow-2xl border-b-[8px] border-sky-300 pointer-events-none select-none">
+              <p className="text-4xl font-black text-sky-600">{t('autoPause.title')}</p>
+              {autoPauseStatus.countdownSecs !== null ? (
+                <p className="text-3xl font-black text-sky-500 mt-2 tabular-nums">{t('autoPause.resuming', { count: autoPauseStatus.countdownSecs })}</p>
+              ) : (
+                <p className="text-xl font-bold text-gray-500 mt-2">{t('autoPause.hint')}</p>
+              )}
+            </div>
+          )}
+
+          {/* 坐姿提示：記錄代償偵測的基準坐姿 */}
+          {showPosturePrompt && (
+            <div className="absolute top-6 left-1/2 -translate-x-1/2 z-40 bg-white/90 backdrop-blur-md px-10 py-6 rounded-[40px] text-center shadow-2xl border-b-[8px] border-sky-300 pointer-events-none select-none">
+              <p className="text-4xl font-black text-sky-600">{t('posture.title')}</p>
+              <p className="text-xl font-bold text-gray-500 mt-2">{t('posture.hint')}</p>
+            </div>
+          )}
+
           {/* 新增暫停選單 Overlay */}
           {gameState.isPaused && (
             <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4">
               <div className="bg-white/95 p-8 rounded-[40px] text-center shadow-2xl border-b-[8px] border-sky-300 max-w-sm w-full">
-                <h2 className="text-4xl font-black text-sky-600 mb-8">遊戲已暫停</h2>
+                <h2 className="text-4xl font-black text-sky-600 mb-8">{t('pause.title')}</h2>
                 <div className="flex flex-col gap-4">
                     <button onClick={togglePause} className="w-full bg-sky-500 hover:bg-sky-600 text-white py-4 rounded-[20px] text-2xl font-black shadow-lg active:scale-95 transition-all">
-                        ▶️ 繼續遊戲
+                        {t('pause.resume')}
                     </button>
                     <button onClick={exitGame} className="w-full bg-red-400 hover:bg-red-500 text-white py-4 rounded-[20px] text-2xl font-black shadow-lg active:scale-95 transition-all">
-                        🚪 退出遊戲
+                        {t('pause.quit')}
                     </button>
                 </div>
               </div>
@@ -542,35 +1047,450 @@ export default function App() {
         </>
       )}
 
-      {(!gameState.isPlaying || gameState.gameOver) && (
+      {calibrationSide && (
+        <div className="absolute top-6 left-1/2 -translate-x-1/2 z-50 bg-white/90 backdrop-blur-md px-8 py-5 rounded-[30px] text-center shadow-2xl border-b-[6px] border-sky-300">
+          <p className="text-3xl font-black text-sky-600">{t('calibration.prompt', { hand: t(SIDE_LABELS[calibrationSide]) })}</p>
+          <p className="text-xl font-bold text-gray-500 mt-2">{t('calibration.remaining', { count: calibrationSecs })}</p>
+          <button onClick={cancelCalibration} className="mt-3 px-6 py-2 bg-red-400 hover:bg-red-500 text-white rounded-2xl font-black transition-colors">
+              {t('calibration.cancel')}
+          </button>
+        </div>
+      )}
+
+      {replayStatus && replayRef.current && (
+        <ReplayControls
+          index={replayStatus.index} total={replayStatus.total} playing={replayStatus.playing}
+          elapsedMs={(replayRef.current.recording.frames[Math.max(0, replayStatus.index - 1)]?.t ?? 0) - (replayRef.current.recording.frames[0]?.t ?? 0)}
+          durationMs={(replayRef.current.recording.frames[replayStatus.total - 1]?.t ?? 0) - (replayRef.current.recording.frames[0]?.t ?? 0)}
+          onTogglePlay={toggleReplayPlaying} onSeek={seekReplay} onExit={exitReplay}
+        />
+      )}
+
+      {showDashboard && patient && (
+        <ProgressDashboard patient={patient} currentRecord={lastRecord} refreshKey={historyVersion} onClose={() => setShowDashboard(false)} />
+      )}
+
+      {(!gameState.isPlaying || gameState.gameOver) && !calibrationSide && !replayStatus && !showDashboard && (
         <div className="absolute inset-0 flex items-center justify-center bg-black/60 backdrop-blur-sm z-50 p-4">
-          <div className="bg-white/95 p-8 rounded-[40px] text-center shadow-2xl border-b-[8px] border-sky-300 max-w-lg w-full">
-            <h2 className="text-5xl font-black text-sky-600 mb-4">{gameState.gameOver ? '遊戲結束!' : '空中捉雀鳥 🦅'}</h2>
+          <div className="bg-white/95 p-8 rounded-[40px] text-center shadow-2xl border-b-[8px] border-sky-300 max-w-lg w-full max-h-full overflow-y-auto">
+            <div className="flex justify-end gap-1 -mt-4 mb-2" aria-label={t('menu.language')}>
+              {Object.values(Locale).map(l => (
+                <button key={l} onClick={() => changeLocale(l)} className={`px-3 py-1 rounded-xl text-sm font-black transition-colors ${locale === l ? 'bg-sky-500 text-white' : 'bg-sky-50 text-sky-700 hover:bg-sky-100'}`}>
+                    {LOCALE_NAMES[l]}
+                </button>
+              ))}
+            </div>
+            <h2 className="text-5xl font-black text-sky-600 mb-4">{gameState.gameOver ? t('menu.gameOver') : t('app.name')}</h2>
             <div className="bg-sky-50 p-6 rounded-[30px] mb-8 flex justify-between items-center border-2 border-sky-100">
-              <div className="text-left"><p className="text-gray-400 text-xs font-bold uppercase tracking-widest">歷史最高</p><p className="text-4xl font-black text-sky-900">{highScore}</p></div>
-              {gameState.gameOver && (<div className="text-right"><p className="text-gray-400 text-xs font-bold uppercase tracking-widest">本次得分</p><p className="text-4xl font-black text-sky-500">{gameState.score}</p></div>)}
+              <div className="text-left"><p className="text-gray-400 text-xs font-bold uppercase tracking-widest">{t('menu.highScore')}</p><p className="text-4xl font-black text-sky-900">{highScore}</p></div>
+              {gameState.gameOver && (<div className="text-right"><p className="text-gray-400 text-xs font-bold uppercase tracking-widest">{t('menu.thisScore')}</p><p className="text-4xl font-black text-sky-500">{gameState.score}</p></div>)}
             </div>
+            {gameState.gameOver && sessionSummary && (
+              <SessionSummaryPanel summary={sessionSummary} canvasWidth={CANVAS_WIDTH} canvasHeight={CANVAS_HEIGHT} />
+            )}
+            {gameState.gameOver && lastSeed !== null && (
+              <p className="-mt-4 mb-4 text-sm text-gray-400 font-bold">{t('menu.seedLabel')}<span className="tabular-nums">{lastSeed}</span></p>
+            )}
+            {gameState.gameOver && lastRecord?.summary.heatmap && (
+              <div className="-mt-4 mb-6 text-left">
+                <HeatMap heatmap={lastRecord.summary.heatmap} events={lastRecord.events} canvasWidth={CANVAS_WIDTH} canvasHeight={CANVAS_HEIGHT} />
+              </div>
+            )}
+            {gameState.gameOver && lastRecord && (
+              <div className="mb-6">
+                <ReportExport record={lastRecord} info={{ clinicName, patientName: patient?.name ?? null }} />
+              </div>
+            )}
+            <PatientPicker patients={patients} selectedId={patientId} onSelect={selectPatient} onCreate={createPatient} />
+            {patient && (
+              <div className="px-2 mb-2 text-left">
+                <button onClick={() => setShowDashboard(true)} className="px-4 py-2 bg-sky-100 hover:bg-sky-200 text-sky-700 rounded-2xl font-black transition-colors">
+                    {t('menu.progress')}
+                </button>
+              </div>
+            )}
+            {patient && <SessionHistory patient={patient} clinicName={clinicName} refreshKey={historyVersion} />}
+            <label className="block mb-6 text-left px-2">
+              <span className="text-gray-600 text-lg font-bold">{t('menu.clinicName')}</span>
+              <input type="text" value={clinicName} placeholder={t('menu.clinicPlaceholder')} onChange={(e) => updateClinicName(e.target.value)} className="w-full mt-1 p-3 rounded-2xl border-2 border-sky-100 text-lg" />
+            </label>
             <div className="space-y-6 mb-10 text-left px-2">
               <label className="block">
-                <div className="flex justify-between mb-1"><span className="text-gray-600 text-lg font-bold">飛行速度</span><span className="text-sky-500 text-xl font-black">{speedFactor.toFixed(1)}x</span></div>
-                <input type="range" min="0.1" max="1.5" step="0.1" value={speedFactor} onChange={(e) => setSpeedFactor(parseFloat(e.target.value))} className="w-full accent-sky-500 h-3" />
+                <div className="flex justify-between mb-1"><span className="text-gray-600 text-lg font-bold">{t('settings.speed')}</span><span className="text-sky-500 text-xl font-black">{speedFactor.toFixed(1)}x</span></div>
+                <input type="range" min="0.1" max="1.5" step="0.1" value={speedFactor} onChange={(e) => updateSetting('speedFactor', parseFloat(e.target.value))} className="w-full accent-sky-500 h-3" />
               </label>
               <label className="block">
-                <div className="flex justify-between mb-1"><span className="text-gray-600 text-lg font-bold">雀鳥密度</span><span className="text-sky-500 text-xl font-black">{spawnFreq.toFixed(1)}x</span></div>
-                <input type="range" min="0.5" max="3.0" step="0.1" value={spawnFreq} onChange={(e) => setSpawnFreq(parseFloat(e.target.value))} className="w-full accent-sky-500 h-3" />
-              </label>
-              <label className="block">
-                <div className="flex justify-between mb-1"><span className="text-gray-600 text-lg font-bold">起始心心</span><span className="text-red-500 text-xl font-black">{initialLives} 個</span></div>
-                <input type="range" min="1" max="10" step="1" value={initialLives} onChange={(e) => setInitialLives(parseInt(e.target.value))} className="w-full accent-red-500 h-3" />
+                <div className="flex justify-between mb-1"><span className="text-gray-600 text-lg font-bold">{t('settings.density')}</span><span className="text-sky-500 text-xl font-black">{spawnFreq.toFixed(1)}x</span></div>
+                <input type="range" min="0.5" max="3.0" step="0.1" value={spawnFreq} onChange={(e) => updateSetting('spawnFreq', parseFloat(e.target.value))} className="w-full accent-sky-500 h-3" />
               </label>
+              <div>
+                <span className="text-gray-600 text-lg font-bold">{t('settings.objects')}</span>
+                <div className="grid grid-cols-3 gap-2 mt-1">
+                  {OBJECT_TYPE_ORDER.map(type => {
+                    const enabled = enabledObjects.includes(type);
+                    // 至少保留一種需要捕捉的目標
+                    const lastTarget = enabled && isTargetType(type) && enabledObjects.filter(isTargetType).length === 1;
+                    return (
+                      <button key={type} onClick={() => toggleObjectType(type)} disabled={lastTarget} className={`py-2 rounded-2xl font-black transition-colors disabled:opacity-60 ${enabled ? 'bg-sky-500 text-white' : 'bg-sky-50 text-sky-700 hover:bg-sky-100'}`}>
+                          {OBJECT_TYPES[type].emojis[0]} {t(OBJECT_TYPES[type].label)}
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+              <div>
+                <span className="text-gray-600 text-lg font-bold">{t('settings.flightPaths')}</span>
+                <div className="grid grid-cols-3 gap-2 mt-1">
+                  {Object.values(FlightPath).map(path => (
+                    <button key={path} onClick={() => toggleFlightPath(path)} className={`py-2 rounded-2xl font-black transition-colors ${flightPaths.includes(path) ? 'bg-sky-500 text-white' : 'bg-sky-50 text-sky-700 hover:bg-sky-100'}`}>
+                        {t(FLIGHT_PATH_LABELS[path])}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div>
+                <span className="text-gray-600 text-lg font-bold">{t('settings.missPenalty')}</span>
+                <div className="grid grid-cols-3 gap-2 mt-1">
+                  {Object.values(MissPenalty).map(penalty => (
+                    <button key={penalty} onClick={() => updateSetting('missPenalty', penalty)} disabled={penalty === MissPenalty.LIFE && setsEnabled} className={`py-2 rounded-2xl font-black transition-colors disabled:opacity-40 ${missPenalty === penalty ? 'bg-sky-500 text-white' : 'bg-sky-50 text-sky-700 hover:bg-sky-100'}`}>
+                        {t(MISS_PENALTY_LABELS[penalty])}
+                    </button>
+                  ))}
+                </div>
+                {missPenalty === MissPenalty.POINTS && (
+                  <label className="block mt-2">
+                    <div className="flex justify-between mb-1"><span className="text-gray-500 font-bold">{t('settings.penaltyPoints')}</span><span className="text-sky-500 text-xl font-black">{t('unit.points', { count: missPenaltyPoints })}</span></div>
+                    <input type="range" min="1" max="20" step="1" value={missPenaltyPoints} onChange={(e) => updateSetting('missPenaltyPoints', parseInt(e.target.value))} className="w-full accent-sky-500 h-3" />
+                  </label>
+                )}
+              </div>
+              <div>
+                <div className="flex justify-between items-center mb-1">
+                  <span className="text-gray-600 text-lg font-bold">{t('settings.difficulty')}</span>
+                  <button onClick={() => updateSetting('adaptiveDifficulty', !adaptiveDifficulty)} className={`px-4 py-1 rounded-xl font-black transition-colors ${adaptiveDifficulty ? 'bg-sky-500 text-white' : 'bg-sky-50 text-sky-700 hover:bg-sky-100'}`}>
+                      {t(adaptiveDifficulty ? 'settings.difficultyAdaptive' : 'settings.difficultyByScore')}
+                  </button>
+                </div>
+                {adaptiveDifficulty && (
+                  <div className="space-y-3">
+                    <label className="block">
+                      <div className="flex justify-between mb-1"><span className="text-gray-500 font-bold">{t('settings.targetSuccessRate')}</span><span className="text-sky-500 text-xl font-black">{Math.round(targetSuccessRate * 100)}%</span></div>
+                      <input type="range" min="0.5" max="0.95" step="0.05" value={targetSuccessRate} onChange={(e) => updateSetting('targetSuccessRate', parseFloat(e.target.value))} className="w-full accent-sky-500 h-3" />
+                    </label>
+                    <label className="block">
+                      <div className="flex justify-between mb-1"><span className="text-gray-500 font-bold">{t('settings.difficultyMin')}</span><span className="text-sky-500 text-xl font-black">{difficultyMin.toFixed(1)}x</span></div>
+                      <input type="range" min="0.3" max="1.0" step="0.1" value={difficultyMin} onChange={(e) => updateSetting('difficultyMin', parseFloat(e.target.value))} className="w-full accent-sky-500 h-3" />
+                    </label>
+                    <label className="block">
+                      <div className="flex justify-between mb-1"><span className="text-gray-500 font-bold">{t('settings.difficultyMax')}</span><span className="text-sky-500 text-xl font-black">{difficultyMax.toFixed(1)}x</span></div>
+                      <input type="range" min="1.0" max="2.5" step="0.1" value={difficultyMax} onChange={(e) => updateSetting('difficultyMax', parseFloat(e.target.value))} className="w-full accent-sky-500 h-3" />
+                    </label>
+                  </div>
+                )}
+              </div>
+              <div>
+                <div className="flex justify-between items-center mb-1">
+                  <span className="text-gray-600 text-lg font-bold">{t('settings.sets')}</span>
+                  <button onClick={() => updateSetting('setsEnabled', !setsEnabled)} className={`px-4 py-1 rounded-xl font-black transition-colors ${setsEnabled ? 'bg-sky-500 text-white' : 'bg-sky-50 text-sky-700 hover:bg-sky-100'}`}>
+                      {t(setsEnabled ? 'settings.setsOn' : 'settings.setsOff')}
+                  </button>
+                </div>
+                {setsEnabled ? (
+                  <div className="space-y-3">
+                    <label className="block">
+                      <div className="flex justify-between mb-1"><span className="text-gray-500 font-bold">{t('settings.setCount')}</span><span className="text-sky-500 text-xl font-black">{t('unit.sets', { count: setCount })}</span></div>
+                      <input type="range" min="1" max="10" step="1" value={setCount} onChange={(e) => updateSetting('setCount', parseInt(e.target.value))} className="w-full accent-sky-500 h-3" />
+                    </label>
+                    <div className="grid grid-cols-2 gap-2">
+                      {Object.values(SetGoal).map(goal => (
+                        <button key={goal} onClick={() => updateSetting('setGoal', goal)} className={`py-2 rounded-2xl font-black transition-colors ${setGoal === goal ? 'bg-sky-500 text-white' : 'bg-sky-50 text-sky-700 hover:bg-sky-100'}`}>
+                            {t(SET_GOAL_LABELS[goal])}
+                        </button>
+                      ))}
+                    </div>
+                    {setGoal === SetGoal.TIME ? (
+                      <label className="block">
+                        <div className="flex justify-between mb-1"><span className="text-gray-500 font-bold">{t('settings.setDuration')}</span><span className="text-sky-500 text-xl font-black">{t('unit.seconds', { count: setDurationSec })}</span></div>
+                        <input type="range" min="15" max="300" step="15" value={setDurationSec} onChange={(e) => updateSetting('setDurationSec', parseInt(e.target.value))} className="w-full accent-sky-500 h-3" />
+                      </label>
+                    ) : (
+                      <label className="block">
+                        <div className="flex justify-between mb-1"><span className="text-gray-500 font-bold">{t('settings.setCatches')}</span><span className="text-sky-500 text-xl font-black">{t('unit.birds', { count: setTargetCatches })}</span></div>
+                        <input type="range" min="5" max="50" step="5" value={setTargetCatches} onChange={(e) => updateSetting('setTargetCatches', parseInt(e.target.value))} className="w-full accent-sky-500 h-3" />
+                      </label>
+                    )}
+                    <label className="block">
+                      <div className="flex justify-between mb-1"><span className="text-gray-500 font-bold">{t('settings.rest')}</span><span className="text-sky-500 text-xl font-black">{t('unit.seconds', { count: restSec })}</span></div>
+                      <input type="range" min="0" max="120" step="5" value={restSec} onChange={(e) => updateSetting('restSec', parseInt(e.target.value))} className="w-full accent-sky-500 h-3" />
+                    </label>
+                  </div>
+                ) : (
+                  <label className="block">
+                    <div className="flex justify-between mb-1"><span className="text-gray-500 font-bold">{t('settings.initialLives')}</span><span className="text-red-500 text-xl font-black">{t('unit.hearts', { count: initialLives })}</span></div>
+                    <input type="range" min="1" max="10" step="1" value={initialLives} onChange={(e) => updateSetting('initialLives', parseInt(e.target.value))} className="w-full accent-red-500 h-3" />
+                  </label>
+                )}
+              </div>
+              <div>
+                <div className="flex justify-between items-center mb-1">
+                  <span className="text-gray-600 text-lg font-bold">{t('settings.grasp')}</span>
+                  <button onClick={() => updateSetting('graspMode', !graspMode)} className={`px-4 py-1 rounded-xl font-black transition-colors ${graspMode ? 'bg-sky-500 text-white' : 'bg-sky-50 text-sky-700 hover:bg-sky-100'}`}>
+                      {t(graspMode ? 'settings.graspOn' : 'settings.graspOff')}
+                  </button>
+                </div>
+                {graspMode && (
+                  <label className="block">
+                    <div className="flex justify-between mb-1"><span className="text-gray-500 font-bold">{t('settings.graspClosure')}</span><span className="text-sky-500 text-xl font-black">{Math.round(graspClosure * 100)}%</span></div>
+                    <input type="range" min="0.2" max="0.9" step="0.05" value={graspClosure} onChange={(e) => updateSetting('graspClosure', parseFloat(e.target.value))} className="w-full accent-sky-500 h-3" />
+                  </label>
+                )}
+              </div>
+              <div>
+                <span className="text-gray-600 text-lg font-bold">{t('settings.handRule')}</span>
+                <div className="grid grid-cols-2 gap-2 mt-1">
+                  {Object.values(HandRule).map(rule => (
+                    <button key={rule} onClick={() => updateSetting('handRule', rule)} className={`py-2 rounded-2xl font-black transition-colors ${handRule === rule ? 'bg-sky-500 text-white' : 'bg-sky-50 text-sky-700 hover:bg-sky-100'}`}>
+                        {t(HAND_RULE_LABELS[rule])}
+                    </button>
+                  ))}
+                </div>
+                {handRule === HandRule.AFFECTED_ONLY && (
+                  <div className="flex gap-2 mt-2 items-center">
+                    <span className="text-gray-500 font-bold">{t('settings.affectedSide')}</span>
+                    {(['Left', 'Right'] as HandSide[]).map(side => (
+                      <button key={side} onClick={() => updateSetting('affectedSide', side)} className={`flex-1 py-2 rounded-2xl font-black transition-colors ${affectedSide === side ? 'bg-red-400 text-white' : 'bg-red-50 text-red-500 hover:bg-red-100'}`}>
+                          {t(SIDE_LABELS[side])}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+              <div>
+                <span className="text-gray-600 text-lg font-bold">{t('settings.input')}</span>
+                <div className="grid grid-cols-3 gap-2 mt-1">
+                  {Object.values(InputKind).map(kind => (
+                    <button key={kind} onClick={() => setInputKind(kind)} disabled={kind === InputKind.CAMERA && !!errorMessage} className={`py-2 rounded-2xl font-black transition-colors disabled:opacity-40 ${inputKind === kind ? 'bg-sky-500 text-white' : 'bg-sky-50 text-sky-700 hover:bg-sky-100'}`}>
+                        {t(INPUT_KIND_LABELS[kind])}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              {inputKind === InputKind.CAMERA && (
+                <div>
+                  <div className="flex justify-between items-center mb-1">
+                    <span className="text-gray-600 text-lg font-bold">{t('settings.handMenu')}</span>
+                    <button onClick={() => updateSetting('handMenu', !handMenu)} className={`px-4 py-1 rounded-xl font-black transition-colors ${handMenu ? 'bg-sky-500 text-white' : 'bg-sky-50 text-sky-700 hover:bg-sky-100'}`}>
+                        {t(handMenu ? 'settings.handMenuOn' : 'common.off')}
+                    </button>
+                  </div>
+                  {handMenu && (
+                    <label className="block">
+                      <div className="flex justify-between mb-1"><span className="text-gray-500 font-bold">{t('settings.dwellTime')}</span><span className="text-sky-500 text-xl font-black">{t('unit.secondsValue', { value: i18n.formatNumber(dwellMs / 1000, 1) })}</span></div>
+                      <input type="range" min="800" max="3000" step="100" value={dwellMs} onChange={(e) => updateSetting('dwellMs', parseInt(e.target.value))} className="w-full accent-sky-500 h-3" />
+                    </label>
+                  )}
+                  <label className="flex items-center gap-2 text-gray-500 font-bold mt-2">
+                    <input type="checkbox" checked={palmPause} onChange={(e) => updateSetting('palmPause', e.target.checked)} className="w-5 h-5 accent-sky-500" />
+                    {t('settings.palmPause')}
+                  </label>
+                  {handMenu && <p className="text-sm text-gray-400 font-bold mt-1">{t('settings.handMenuHint')}</p>}
+                </div>
+              )}
+              {inputKind === InputKind.CAMERA && (
+                <div>
+                  <div className="flex justify-between items-center mb-1">
+                    <span className="text-gray-600 text-lg font-bold">{t('settings.autoPause')}</span>
+                    <button onClick={() => updateSetting('autoPause', !autoPause)} className={`px-4 py-1 rounded-xl font-black transition-colors ${autoPause ? 'bg-sky-500 text-white' : 'bg-sky-50 text-sky-700 hover:bg-sky-100'}`}>
+                        {t(autoPause ? 'settings.autoPauseOn' : 'common.off')}
+                    </button>
+                  </div>
+                  {autoPause && (
+                    <label className="block">
+                      <div className="flex justify-between mb-1"><span className="text-gray-500 font-bold">{t('settings.autoPauseAfter')}</span><span className="text-sky-500 text-xl font-black">{t('unit.seconds', { count: autoPauseSec })}</span></div>
+                      <input type="range" min="1" max="10" step="1" value={autoPauseSec} onChange={(e) => updateSetting('autoPauseSec', parseInt(e.target.value))} className="w-full accent-sky-500 h-3" />
+                    </label>
+                  )}
+                </div>
+              )}
+              {inputKind === InputKind.CAMERA && (
+                <div>
+                  <div className="flex justify-between items-center mb-1">
+                    <span className="text-gray-600 text-lg font-bold">{t('settings.poseTracking')}</span>
+                    <button onClick={() => updateSetting('poseTracking', !poseTracking)} className={`px-4 py-1 rounded-xl font-black transition-colors ${poseTracking ? 'bg-sky-500 text-white' : 'bg-sky-50 text-sky-700 hover:bg-sky-100'}`}>
+                        {t(poseTracking ? 'settings.poseTrackingOn' : 'common.off')}
+                    </button>
+                  </div>
+                  {poseTracking && (
+                    <>
+                      <label className="block">
+                        <div className="flex justify-between mb-1"><span className="text-gray-500 font-bold">{t('settings.trunkLeanMax')}</span><span className="text-sky-500 text-xl font-black">{t('unit.degrees', { value: trunkLeanMaxDeg })}</span></div>
+                        <input type="range" min="5" max="30" step="1" value={trunkLeanMaxDeg} onChange={(e) => updateSetting('trunkLeanMaxDeg', parseInt(e.target.value))} className="w-full accent-sky-500 h-3" />
+                      </label>
+                      <label className="block mt-2">
+                        <div className="flex justify-between mb-1"><span className="text-gray-500 font-bold">{t('settings.shoulderHikeMax')}</span><span className="text-sky-500 text-xl font-black">{t('unit.centimetres', { value: i18n.formatNumber(shoulderHikeMaxCm, 1) })}</span></div>
+                        <input type="range" min="1" max="8" step="0.5" value={shoulderHikeMaxCm} onChange={(e) => updateSetting('shoulderHikeMaxCm', parseFloat(e.target.value))} className="w-full accent-sky-500 h-3" />
+                      </label>
+                      <div className="flex gap-2 mt-2 items-center">
+                        <span className="text-gray-500 font-bold">{t('settings.compensationAction')}</span>
+                        {Object.values(CompensationAction).map(action => (
+                          <button key={action} onClick={() => updateSetting('compensationAction', action)} className={`flex-1 py-2 rounded-2xl font-black transition-colors ${compensationAction === action ? 'bg-sky-500 text-white' : 'bg-sky-50 text-sky-700 hover:bg-sky-100'}`}>
+                              {t(COMPENSATION_ACTION_LABELS[action])}
+                          </button>
+                        ))}
+                      </div>
+                      <p className="text-sm text-gray-400 font-bold mt-1">{t('settings.poseTrackingHint')}</p>
+                      {poseStatus === 'loading' && <p className="text-sm text-sky-400 font-bold mt-1 animate-pulse">{t('settings.poseLoading')}</p>}
+                      {poseStatus === 'error' && <p className="text-sm text-red-400 font-bold mt-1">{t('settings.poseError')}</p>}
+                    </>
+                  )}
+                </div>
+              )}
+              {inputKind === InputKind.CAMERA && (
+                <div>
+                  <span className="text-gray-600 text-lg font-bold">{t('settings.tracking')}</span>
+                  <div className="grid grid-cols-3 gap-2 mt-1">
+                    {Object.values(TrackingFilter).map(filter => (
+                      <button key={filter} onClick={() => updateSetting('trackingFilter', filter)} className={`py-2 rounded-2xl font-black transition-colors ${trackingFilter === filter ? 'bg-sky-500 text-white' : 'bg-sky-50 text-sky-700 hover:bg-sky-100'}`}>
+                          {t(TRACKING_FILTER_LABELS[filter])}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+              <div>
+                <div className="flex justify-between items-center mb-1">
+                  <span className="text-gray-600 text-lg font-bold">{t('settings.reach')}</span>
+                  <button onClick={startCalibration} disabled={inputKind === InputKind.CAMERA && !trackerReady} className="px-4 py-1 bg-sky-100 hover:bg-sky-200 disabled:opacity-40 text-sky-700 rounded-xl font-black transition-colors">
+                      {t(calibration ? 'settings.recalibrate' : 'settings.calibrate')}
+                  </button>
+                </div>
+                {calibration ? (
+                  <p className="text-sm text-gray-500 font-bold">
+                    {t('settings.reachRatio', { ratio: formatRatio(getReachAreaRatio(calibration, CANVAS_WIDTH, CANVAS_HEIGHT)) })}
+                    {previousCalibration && t('settings.reachPrevious', { ratio: formatRatio(getReachAreaRatio(previousCalibration, CANVAS_WIDTH, CANVAS_HEIGHT)) })}
+                    {' · '}{i18n.formatDate(calibration.calibratedAt)}
+                  </p>
+                ) : (
+                  <p className="text-sm text-gray-400 font-bold">{t('settings.uncalibrated')}</p>
+                )}
+              </div>
+              {calibration && (
+                <label className="block">
+                  <div className="flex justify-between mb-1"><span className="text-gray-600 text-lg font-bold">{t('settings.reachTarget')}</span><span className="text-sky-500 text-xl font-black">{Math.round(reachScale * 100)}%</span></div>
+                  <input type="range" min="0.8" max="1.5" step="0.05" value={reachScale} onChange={(e) => updateSetting('reachScale', parseFloat(e.target.value))} className="w-full accent-sky-500 h-3" />
+                </label>
+              )}
+              <div>
+                <span className="text-gray-600 text-lg font-bold">{t('settings.seed')}</span>
+                <div className="grid grid-cols-3 gap-2 mt-1">
+                  {Object.values(SeedMode).map(mode => (
+                    <button key={mode} onClick={() => updateSetting('seedMode', mode)} disabled={mode === SeedMode.REPEAT_LAST && lastSeed === null} className={`py-2 rounded-2xl font-black transition-colors disabled:opacity-40 ${seedMode === mode ? 'bg-sky-500 text-white' : 'bg-sky-50 text-sky-700 hover:bg-sky-100'}`}>
+                        {t(SEED_MODE_LABELS[mode])}
+                    </button>
+                  ))}
+                </div>
+                {seedMode === SeedMode.FIXED && (
+                  <label className="flex gap-2 mt-2 items-center">
+                    <span className="text-gray-500 font-bold">{t('settings.seedValue')}</span>
+                    <input type="number" min="0" step="1" value={fixedSeed} onChange={(e) => updateSetting('fixedSeed', Math.max(0, parseInt(e.target.value) || 0))} className="flex-1 px-3 py-2 rounded-2xl bg-sky-50 text-sky-900 font-black tabular-nums" />
+                  </label>
+                )}
+                {seedMode === SeedMode.REPEAT_LAST && lastSeed !== null && (
+                  <p className="text-sm text-gray-500 font-bold mt-1">{t('settings.seedRepeat', { seed: String(lastSeed) })}</p>
+                )}
+              </div>
+              <div>
+                <span className="text-gray-600 text-lg font-bold">{t('settings.volume')}</span>
+                <div className="space-y-2 mt-1">
+                  {VOLUME_CHANNELS.map(channel => (
+                    <div key={channel.volume} className="flex items-center gap-3">
+                      <button onClick={() => updateSetting(channel.muted, !settings[channel.muted])} className={`w-28 py-1 rounded-xl font-black transition-colors ${settings[channel.muted] ? 'bg-gray-200 text-gray-500' : 'bg-sky-50 text-sky-700 hover:bg-sky-100'}`}>
+                          {settings[channel.muted] ? '🔇' : '🔊'} {t(channel.label)}
+                      </button>
+                      <input type="range" min="0" max="1" step="0.05" value={settings[channel.volume]} disabled={settings[channel.muted]} onChange={(e) => updateSetting(channel.volume, parseFloat(e.target.value))} className="flex-1 accent-sky-500 h-3 disabled:opacity-40" />
+                      <span className="w-12 text-right text-sky-500 font-black tabular-nums">{Math.round(settings[channel.volume] * 100)}%</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+              <div>
+                <div className="flex justify-between items-center mb-1">
+                  <span className="text-gray-600 text-lg font-bold">{t('settings.audioCues')}</span>
+                  <button onClick={() => updateSetting('audioCues', !audioCues)} className={`px-4 py-1 rounded-xl font-black transition-colors ${audioCues ? 'bg-sky-500 text-white' : 'bg-sky-50 text-sky-700 hover:bg-sky-100'}`}>
+                      {t(audioCues ? 'settings.audioCuesOn' : 'settings.audioCuesOff')}
+                  </button>
+                </div>
+                {audioCues && (
+                  <label className="flex items-center gap-2 text-gray-500 font-bold">
+                    <input type="checkbox" checked={escapeWarningCue} onChange={(e) => updateSetting('escapeWarningCue', e.target.checked)} className="w-5 h-5 accent-sky-500" />
+                    {t('settings.escapeWarning')}
+                  </label>
+                )}
+                <p className="text-sm text-gray-400 font-bold mt-1">{t('settings.audioCuesHint')}</p>
+              </div>
+              <div>
+                <div className="flex justify-between items-center mb-1">
+                  <span className="text-gray-600 text-lg font-bold">{t('settings.neglect')}</span>
+                  <button onClick={() => updateSetting('neglectMode', !neglectMode)} className={`px-4 py-1 rounded-xl font-black transition-colors ${neglectMode ? 'bg-sky-500 text-white' : 'bg-sky-50 text-sky-700 hover:bg-sky-100'}`}>
+                      {t(neglectMode ? 'settings.neglectOn' : 'common.off')}
+                  </button>
+                </div>
+                {neglectMode && (
+                  <div className="space-y-3">
+                    <div className="grid grid-cols-2 gap-2">
+                      {(['Left', 'Right'] as HandSide[]).map(side => (
+                        <button key={side} onClick={() => updateSetting('neglectedSide', side)} className={`py-2 rounded-2xl font-black transition-colors ${neglectedSide === side ? 'bg-sky-500 text-white' : 'bg-sky-50 text-sky-700 hover:bg-sky-100'}`}>
+                            {t('settings.neglectSide', { side: t(FIELD_LABELS[side]) })}
+                        </button>
+                      ))}
+                    </div>
+                    <label className="block">
+                      <div className="flex justify-between mb-1"><span className="text-gray-500 font-bold">{t('settings.neglectBias', { side: t(FIELD_LABELS[neglectedSide]) })}</span><span className="text-sky-500 text-xl font-black">{Math.round(neglectSpawnBias * 100)}%</span></div>
+                      <input type="range" min="0.5" max="0.95" step="0.05" value={neglectSpawnBias} onChange={(e) => updateSetting('neglectSpawnBias', parseFloat(e.target.value))} className="w-full accent-sky-500 h-3" />
+                    </label>
+                    <p className="text-sm text-gray-400 font-bold">{t('settings.neglectHint')}</p>
+                  </div>
+                )}
+              </div>
             </div>
-            <button onClick={startGame} className="w-full bg-sky-500 hover:bg-sky-600 text-white py-6 rounded-[30px] text-4xl font-black shadow-xl active:scale-95 transition-all mb-4">
-                {gameState.gameOver ? '再試一次' : '開始飛行'}
+            {/* 固定在選單底部，免觸控操作時不用捲動也能按到 */}
+            <button onClick={startGame} className="sticky bottom-0 z-10 w-full bg-sky-500 hover:bg-sky-600 text-white py-6 rounded-[30px] text-4xl font-black shadow-xl active:scale-95 transition-all mb-4">
+                {t(gameState.gameOver ? 'menu.retry' : 'menu.start')}
             </button>
-            {!trackerReady && !errorMessage && <p className="mt-6 text-sky-400 font-bold animate-pulse text-xl">⚡ 系統準備中... (請允許相機)</p>}
+            <div className="flex gap-2 justify-center items-center text-sky-700 font-bold">
+              <label className="flex items-center gap-2 px-3 py-2 rounded-2xl bg-sky-50">
+                <input type="checkbox" checked={recordEnabled} onChange={(e) => setRecordEnabled(e.target.checked)} className="w-5 h-5 accent-sky-500" />
+                {t('menu.record')}
+              </label>
+              <label className="px-3 py-2 rounded-2xl bg-sky-50 hover:bg-sky-100 cursor-pointer transition-colors">
+                {t('menu.loadReplay')}
+                <input type="file" accept="application/json,.json" className="hidden" onChange={(e) => { const f = e.target.files?.[0]; if (f) loadReplay(f); e.target.value = ''; }} />
+              </label>
+              {gameState.gameOver && hasRecording && (
+                <button onClick={() => { const rec = sessionRecorder.getRecording(); if (rec) sessionRecorder.download(rec); }} className="px-3 py-2 rounded-2xl bg-sky-50 hover:bg-sky-100 transition-colors">
+                    {t('menu.downloadReplay')}
+                </button>
+              )}
+            </div>
+            {replayError && <p className="mt-2 text-red-500 font-bold">{replayError}</p>}
+            {inputKind === InputKind.CAMERA && !trackerReady && !errorMessage && !loadProgress && <p className="mt-6 text-sky-400 font-bold animate-pulse text-xl">{t('menu.preparing')}</p>}
+            {inputKind === InputKind.CAMERA && !trackerReady && !errorMessage && loadProgress && (
+              <div className="mt-6">
+                <p className="text-sky-400 font-bold text-xl">
+                  ⚡ {t(LOAD_STAGE_LABELS[loadProgress.stage])}
+                  {loadProgress.delegate === 'CPU' && t('menu.cpuMode')}
+                  {loadProgress.progress !== undefined && ` ${i18n.formatPercent(loadProgress.progress)}`}
+                </p>
+                <div className="mt-2 h-3 bg-sky-100 rounded-full overflow-hidden">
+                  <div className="h-full bg-sky-400 transition-all" style={{ width: `${(loadProgress.progress ?? 1) * 100}%` }} />
+                </div>
+              </div>
+            )}
           </div>
         </div>
       )}
+
+      <HandCursors />
     </div>
   );
 }
@@ -0,0 +1,34 @@
+import React, { useEffect, useState } from 'react';
+import { HandCursor, handMenuService } from '../services/handMenuService';
+
+const RING_RADIUS = 34;
+const RING_LENGTH = 2 * Math.PI * RING_RADIUS;
+
+// 選單上的手部游標與停留進度圈 (畫布被選單遮住，所以另以 DOM 顯示)
+export default function HandCursors() {
+  const [cursors, setCursors] = useState<HandCursor[]>([]);
+
+  useEffect(() => handMenuService.subscribe(setCursors), []);
+
+  return (
+    <>
+      {cursors.map(c => (
+        <div key={c.id} className="fixed z-[60] pointer-events-none -translate-x-1/2 -translate-y-1/2" style={{ left: c.x, top: c.y }}>
+          <svg width={RING_RADIUS * 2 + 12} height={RING_RADIUS * 2 + 12} viewBox={`0 0 ${RING_RADIUS * 2 + 12} ${RING_RADIUS * 2 + 12}`} className="drop-shadow-lg">
+            <circle cx={RING_RADIUS + 6} cy={RING_RADIUS + 6} r={RING_RADIUS} fill="rgba(255,255,255,0.35)" stroke="rgba(255,255,255,0.8)" strokeWidth="6" />
+            <circle
+              cx={RING_RADIUS + 6} cy={RING_RADIUS + 6} r={RING_RADIUS} fill="none"
+              stroke={c.grabbing ? '#FFEB3B' : '#0EA5E9'} strokeWidth="6" strokeLinecap="round"
+              strokeDasharray={RING_LENGTH} strokeDashoffset={RING_LENGTH * (1 - c.progress)}
+              transform={`rotate(-90 ${RING_RADIUS + 6} ${RING_RADIUS + 6})`}
+            />
+          </svg>
+          <span className="absolute inset-0 flex items-center justify-center text-4xl">{c.grabbing ? '✊' : '✋'}</span>
+          {c.scrolling !== 0 && (
+            <span className={`absolute left-1/2 -translate-x-1/2 text-3xl font-black text-white drop-shadow-lg ${c.scrolling < 0 ? 'bottom-full' : 'top-full'}`}>{c.scrolling < 0 ? '▲' : '▼'}</span>
+          )}
+        </div>
+      ))}
+    </>
+  );
+}
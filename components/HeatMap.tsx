@@ -0,0 +1,103 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { HandHeatmap, HandSide, SessionEvent, SessionEventType } from '../types';
+import { isTargetType } from '../services/objectRegistry';
+import { MessageKey, i18n, t } from '../services/i18n';
+
+interface Props {
+  heatmap: HandHeatmap;
+  events: SessionEvent[];
+  canvasWidth: number;
+  canvasHeight: number;
+}
+
+type SideFilter = HandSide | 'Both';
+
+const FILTER_LABELS: Record<SideFilter, MessageKey> = { Both: 'heatmap.both', Left: 'side.left', Right: 'side.right' };
+const QUADRANT_LABELS: MessageKey[] = ['heatmap.topLeft', 'heatmap.topRight', 'heatmap.bottomLeft', 'heatmap.bottomRight'];
+
+// 在遊戲畫面上疊加手部停留範圍、捕捉位置與飛走位置
+export default function HeatMap({ heatmap, events, canvasWidth, canvasHeight }: Props) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [filter, setFilter] = useState<SideFilter>('Both');
+
+  const { cols, rows, visits } = heatmap;
+  const sides: HandSide[] = filter === 'Both' ? ['Left', 'Right'] : [filter];
+  const grid = visits.Left.map((_, i) => sides.reduce((sum, side) => sum + visits[side][i], 0));
+  const total = grid.reduce((a, b) => a + b, 0);
+
+  // 各象限的停留比例，方便找出病人避開的區域
+  const quadrants = [0, 0, 0, 0];
+  grid.forEach((count, i) => {
+    const col = i % cols;
+    const row = Math.floor(i / cols);
+    quadrants[(row < rows / 2 ? 0 : 2) + (col < cols / 2 ? 0 : 1)] += count;
+  });
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+
+    const sky = ctx.createLinearGradient(0, 0, 0, canvasHeight);
+    sky.addColorStop(0, '#03A9F4'); sky.addColorStop(1, '#81D4FA');
+    ctx.fillStyle = sky;
+    ctx.fillRect(0, 0, canvasWidth, canvasHeight);
+
+    const max = Math.max(...grid, 1);
+    const cellW = canvasWidth / cols;
+    const cellH = canvasHeight / rows;
+    grid.forEach((count, i) => {
+      if (count === 0) return;
+      const heat = count / max;
+      ctx.fillStyle = `hsla(${60 - heat * 60}, 100%, 50%, ${0.25 + heat * 0.55})`;
+      ctx.fillRect((i % cols) * cellW, Math.floor(i / cols) * cellH, cellW, cellH);
+    });
+
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.6)';
+    ctx.lineWidth = 3;
+    ctx.setLineDash([16, 12]);
+    ctx.beginPath();
+    ctx.moveTo(canvasWidth / 2, 0); ctx.lineTo(canvasWidth / 2, canvasHeight);
+    ctx.moveTo(0, canvasHeight / 2); ctx.lineTo(canvasWidth, canvasHeight / 2);
+    ctx.stroke();
+    ctx.setLineDash([]);
+
+    // 飛走的雀鳥不屬於任何一隻手，兩邊都會顯示
+    events.filter(e => isTargetType(e.objectType)).forEach(e => {
+      if (e.type === SessionEventType.CATCH && e.side && sides.includes(e.side)) {
+        ctx.fillStyle = '#2E7D32';
+        ctx.strokeStyle = 'white';
+        ctx.lineWidth = 3;
+        ctx.beginPath(); ctx.arc(e.x, e.y, 14, 0, Math.PI * 2); ctx.fill(); ctx.stroke();
+      } else if (e.type === SessionEventType.ESCAPE) {
+        ctx.strokeStyle = '#D32F2F';
+        ctx.lineWidth = 6;
+        ctx.beginPath();
+        ctx.moveTo(e.x - 12, e.y - 12); ctx.lineTo(e.x + 12, e.y + 12);
+        ctx.moveTo(e.x + 12, e.y - 12); ctx.lineTo(e.x - 12, e.y + 12);
+        ctx.stroke();
+      }
+    });
+  }, [heatmap, events, filter, canvasWidth, canvasHeight]);
+
+  return (
+    <div className="bg-white rounded-2xl p-3">
+      <div className="flex justify-between items-center mb-2">
+        <p className="text-gray-400 text-xs font-bold">{t('heatmap.title')}</p>
+        <div className="flex gap-1">
+          {(Object.keys(FILTER_LABELS) as SideFilter[]).map(f => (
+            <button key={f} onClick={() => setFilter(f)} className={`px-3 py-1 rounded-xl text-sm font-black transition-colors ${filter === f ? 'bg-sky-500 text-white' : 'bg-sky-50 text-sky-700 hover:bg-sky-100'}`}>
+                {t(FILTER_LABELS[f])}
+            </button>
+          ))}
+        </div>
+      </div>
+      <canvas ref={canvasRef} width={canvasWidth} height={canvasHeight} className="w-full h-auto rounded-xl" />
+      <div className="flex justify-between mt-2 text-xs font-bold text-gray-500">
+        <span><span className="text-green-700">●</span> {t('heatmap.caught')}　<span className="text-red-600">✕</span> {t('heatmap.escaped')}</span>
+        <span>
+          {t('heatmap.share')}{QUADRANT_LABELS.map((label, i) => `${t(label)} ${i18n.formatPercent(total > 0 ? quadrants[i] / total : 0)}`).join('　')}
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+import React, { useState } from 'react';
+import { PatientProfile } from '../types';
+import { t } from '../services/i18n';
+
+interface Props {
+  patients: PatientProfile[];
+  selectedId: string | null;
+  onSelect: (id: string | null) => void;
+  onCreate: (name: string) => void;
+}
+
+export default function PatientPicker({ patients, selectedId, onSelect, onCreate }: Props) {
+  const [newName, setNewName] = useState('');
+
+  const handleCreate = () => {
+    const name = newName.trim();
+    if (!name) return;
+    onCreate(name);
+    setNewName('');
+  };
+
+  return (
+    <div className="mb-6 text-left px-2">
+      <span className="text-gray-600 text-lg font-bold">{t('patient.label')}</span>
+      <select
+        value={selectedId ?? ''}
+        onChange={(e) => onSelect(e.target.value || null)}
+        className="w-full mt-1 p-3 rounded-2xl border-2 border-sky-100 bg-sky-50 text-lg font-bold text-sky-900"
+      >
+        <option value="">{t('patient.guest')}</option>
+        {patients.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+      </select>
+      <div className="flex gap-2 mt-2">
+        <input
+          type="text" value={newName} placeholder={t('patient.newPlaceholder')}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') handleCreate(); }}
+          className="flex-1 min-w-0 p-3 rounded-2xl border-2 border-sky-100 text-lg"
+        />
+        <button onClick={handleCreate} className="px-5 bg-sky-100 hover:bg-sky-200 text-sky-700 rounded-2xl font-black transition-colors">
+          {t('patient.add')}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { PatientProfile, SessionRecord } from '../types';
+import { patientStore } from '../services/patientStore';
+import { BASELINE_SESSIONS, MetricKey, filterByDate, getBaseline, getSessionMetrics } from '../services/progressService';
+import { MessageKey, i18n, t } from '../services/i18n';
+import TrendChart from './TrendChart';
+
+interface Props {
+  patient: PatientProfile;
+  currentRecord: SessionRecord | null; // 剛完成的訓練，用於與基線比較
+  refreshKey: number;
+  onClose: () => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// null 為全部日期
+const RANGE_PRESETS: (number | null)[] = [7, 30, 90, null];
+
+const formatPercent = (value: number) => i18n.formatPercent(value);
+const formatSeconds = (ms: number) => t('unit.secondsShort', { value: i18n.formatNumber(ms / 1000, 1) });
+const formatCount = (value: number) => i18n.formatNumber(value, value % 1 === 0 ? 0 : 1);
+
+const METRICS: { key: MetricKey; label: MessageKey; format: (v: number) => string; higherIsBetter: boolean }[] = [
+  { key: 'score', label: 'metric.score', format: formatCount, higherIsBetter: true },
+  { key: 'successRate', label: 'metric.successRate', format: formatPercent, higherIsBetter: true },
+  { key: 'meanReactionMs', label: 'metric.meanReaction', format: formatSeconds, higherIsBetter: false },
+  { key: 'catchesLeft', label: 'metric.catchesLeft', format: formatCount, higherIsBetter: true },
+  { key: 'catchesRight', label: 'metric.catchesRight', format: formatCount, higherIsBetter: true },
+  { key: 'reachArea', label: 'metric.reachArea', format: formatPercent, higherIsBetter: true },
+];
+
+const toDateInput = (t: number | null) => t === null ? '' : new Date(t - new Date(t).getTimezoneOffset() * 60000).toISOString().slice(0, 10);
+const fromDateInput = (value: string, endOfDay: boolean) => {
+  if (!value) return null;
+  const [y, m, d] = value.split('-').map(Number);
+  return endOfDay ? new Date(y, m - 1, d, 23, 59, 59, 999).getTime() : new Date(y, m - 1, d).getTime();
+};
+
+export default function ProgressDashboard({ patient, currentRecord, refreshKey, onClose }: Props) {
+  const [sessions, setSessions] = useState<SessionRecord[]>([]);
+  const [from, setFrom] = useState<number | null>(null);
+  const [to, setTo] = useState<number | null>(null);
+
+  useEffect(() => {
+    patientStore.getSessions(patient.id)
+      .then(setSessions)
+      .catch(err => console.error("讀取訓練紀錄失敗:", err));
+  }, [patient.id, refreshKey]);
+
+  const visible = useMemo(() => filterByDate(sessions, from, to).map(getSessionMetrics), [sessions, from, to]);
+  const baseline = useMemo(() => getBaseline(sessions), [sessions]);
+  const current = currentRecord?.patientId === patient.id ? currentRecord : sessions[sessions.length - 1] ?? null;
+  const currentMetrics = current ? getSessionMetrics(current) : null;
+
+  const applyPreset = (days: number | null) => {
+    setFrom(days === null ? null : Date.now() - days * DAY_MS);
+    setTo(null);
+  };
+
+  return (
+    <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4">
+      <div className="bg-sky-50 p-6 rounded-[40px] shadow-2xl border-b-[8px] border-sky-300 max-w-5xl w-full max-h-full overflow-y-auto">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-3xl font-black text-sky-600">{t('progress.title', { name: patient.name })}</h2>
+          <button onClick={onClose} className="px-5 py-2 bg-sky-500 hover:bg-sky-600 text-white rounded-2xl font-black transition-colors">{t('progress.back')}</button>
+        </div>
+
+        <div className="flex flex-wrap gap-2 items-center mb-4 text-sky-700 font-bold">
+          {RANGE_PRESETS.map(days => (
+            <button key={days ?? 'all'} onClick={() => applyPreset(days)} className="px-3 py-1 rounded-xl bg-white hover:bg-sky-100 transition-colors">
+                {days === null ? t('progress.all') : t('unit.days', { count: days })}
+            </button>
+          ))}
+          <input type="date" value={toDateInput(from)} onChange={(e) => setFrom(fromDateInput(e.target.value, false))} className="px-2 py-1 rounded-xl bg-white" />
+          <span>{t('progress.to')}</span>
+          <input type="date" value={toDateInput(to)} onChange={(e) => setTo(fromDateInput(e.target.value, true))} className="px-2 py-1 rounded-xl bg-white" />
+          <span className="text-gray-400 ml-auto">{t('progress.count', { count: visible.length })}</span>
+        </div>
+
+        {currentMetrics && baseline && (
+          <div className="bg-white rounded-2xl p-4 mb-4">
+            <p className="text-gray-400 text-xs font-bold uppercase tracking-widest mb-2">
+              {t('progress.compare', { date: i18n.formatDate(current!.startedAt), count: Math.min(BASELINE_SESSIONS, sessions.length) })}
+            </p>
+            <div className="grid grid-cols-3 md:grid-cols-6 gap-3">
+              {METRICS.map(m => {
+                const value = currentMetrics[m.key];
+                const base = baseline[m.key];
+                const delta = value !== null && base !== null ? value - base : null;
+                const improved = delta !== null && delta !== 0 && (delta > 0) === m.higherIsBetter;
+                return (
+                  <div key={m.key}>
+                    <p className="text-gray-400 text-xs font-bold">{t(m.label)}</p>
+                    <p className="text-2xl font-black text-sky-900">{value === null ? '—' : m.format(value)}</p>
+                    <p className={`text-sm font-bold ${delta === null || delta === 0 ? 'text-gray-400' : improved ? 'text-green-600' : 'text-red-500'}`}>
+                      {delta === null ? '—' : `${delta > 0 ? '▲' : delta < 0 ? '▼' : '＝'} ${m.format(Math.abs(delta))}`}
+                    </p>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        {visible.length === 0 ? (
+          <p className="text-center text-gray-400 font-bold py-12">{t('progress.empty')}</p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <TrendChart title={t('metric.score')} format={formatCount} baseline={baseline?.score}
+              series={[{ label: t('metric.score'), color: '#0288D1', points: visible.map(m => ({ t: m.startedAt, value: m.score })) }]} />
+            <TrendChart title={t('metric.successRate')} format={formatPercent} baseline={baseline?.successRate}
+              series={[{ label: t('metric.successRate'), color: '#43A047', points: visible.map(m => ({ t: m.startedAt, value: m.successRate })) }]} />
+            <TrendChart title={t('metric.meanReaction')} format={formatSeconds} baseline={baseline?.meanReactionMs}
+              series={[{ label: t('metric.reaction'), color: '#7B1FA2', points: visible.map(m => ({ t: m.startedAt, value: m.meanReactionMs })) }]} />
+            <TrendChart title={t('progress.catchesByHand')} format={formatCount}
+              series={[
+                { label: t('side.left'), color: '#0288D1', points: visible.map(m => ({ t: m.startedAt, value: m.catchesLeft })) },
+                { label: t('side.right'), color: '#EF6C00', points: visible.map(m => ({ t: m.startedAt, value: m.catchesRight })) },
+              ]} />
+            <TrendChart title={t('progress.calibratedReach')} format={formatPercent} baseline={baseline?.reachArea}
+              series={[{ label: t('metric.reachArea'), color: '#00897B', points: visible.map(m => ({ t: m.startedAt, value: m.reachArea })) }]} />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+import React from 'react';
+import { t } from '../services/i18n';
+
+interface Props {
+  index: number;
+  total: number;
+  playing: boolean;
+  elapsedMs: number;
+  durationMs: number;
+  onTogglePlay: () => void;
+  onSeek: (index: number) => void;
+  onExit: () => void;
+}
+
+const formatTime = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  return `${Math.floor(totalSeconds / 60)}:${(totalSeconds % 60).toString().padStart(2, '0')}`;
+};
+
+export default function ReplayControls({ index, total, playing, elapsedMs, durationMs, onTogglePlay, onSeek, onExit }: Props) {
+  return (
+    <div className="absolute bottom-4 left-1/2 -translate-x-1/2 z-50 w-[min(90%,48rem)] bg-white/90 backdrop-blur-md px-6 py-4 rounded-[30px] shadow-2xl flex items-center gap-4">
+      <button onClick={onTogglePlay} className="bg-sky-500 hover:bg-sky-600 text-white px-5 py-2 rounded-2xl text-xl font-black active:scale-95 transition-all">
+          {playing ? '⏸️' : '▶️'}
+      </button>
+      <input
+        type="range" min="0" max={total} step="1" value={index}
+        onChange={(e) => onSeek(parseInt(e.target.value))}
+        className="flex-1 accent-sky-500 h-3"
+      />
+      <span className="text-sky-900 font-black tabular-nums">{formatTime(elapsedMs)} / {formatTime(durationMs)}</span>
+      <button onClick={onExit} className="bg-red-400 hover:bg-red-500 text-white px-4 py-2 rounded-2xl font-black transition-colors">
+          {t('replay.exit')}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,22 @@
+import React from 'react';
+import { SessionRecord } from '../types';
+import { ReportInfo, exportReport, printReport } from '../services/reportService';
+import { t } from '../services/i18n';
+
+interface Props {
+  record: SessionRecord;
+  info: ReportInfo;
+  compact?: boolean;
+}
+
+export default function ReportExport({ record, info, compact = false }: Props) {
+  const buttonClass = `${compact ? 'px-2 py-1 text-sm' : 'px-3 py-2'} rounded-2xl bg-sky-50 hover:bg-sky-100 text-sky-700 font-bold transition-colors`;
+  return (
+    <div className="flex gap-2 flex-wrap justify-center">
+      <button onClick={() => printReport(record, info)} className={buttonClass}>{t('report.print')}</button>
+      <button onClick={() => exportReport(record, 'html', info)} className={buttonClass}>📄 HTML</button>
+      <button onClick={() => exportReport(record, 'csv', info)} className={buttonClass}>📊 CSV</button>
+      <button onClick={() => exportReport(record, 'json', info)} className={buttonClass}>🗂️ JSON</button>
+    </div>
+  );
+}
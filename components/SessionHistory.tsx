@@ -0,0 +1,64 @@
+import React, { useEffect, useState } from 'react';
+import { PatientProfile, SessionRecord } from '../types';
+import { patientStore } from '../services/patientStore';
+import { i18n, t } from '../services/i18n';
+import { formatPercent } from '../services/formatters';
+import { CANVAS_HEIGHT, CANVAS_WIDTH } from '../constants';
+import ReportExport from './ReportExport';
+import HeatMap from './HeatMap';
+
+interface Props {
+  patient: PatientProfile;
+  clinicName: string;
+  refreshKey: number; // 新紀錄儲存後遞增以重新載入
+}
+
+export default function SessionHistory({ patient, clinicName, refreshKey }: Props) {
+  const [sessions, setSessions] = useState<SessionRecord[]>([]);
+  const [open, setOpen] = useState(false);
+  const [heatmapId, setHeatmapId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    patientStore.getSessions(patient.id)
+      .then(setSessions)
+      .catch(err => console.error("讀取訓練紀錄失敗:", err));
+  }, [open, patient.id, refreshKey]);
+
+  return (
+    <div className="mb-6 text-left px-2">
+      <button onClick={() => setOpen(!open)} className="text-sky-700 font-bold hover:underline">
+        {open ? '▾' : '▸'} {t('history.title')}
+      </button>
+      {open && (
+        sessions.length === 0 ? (
+          <p className="text-sm text-gray-400 font-bold mt-1">{t('history.empty')}</p>
+        ) : (
+          <ul className="mt-2 space-y-2 max-h-64 overflow-y-auto">
+            {[...sessions].reverse().map(s => (
+              <li key={s.id} className="bg-sky-50 rounded-2xl p-3">
+                <div className="flex justify-between text-sky-900 font-bold mb-2">
+                  <span>{i18n.formatDateTime(s.startedAt)}</span>
+                  <span>{t('history.item', { score: s.score, rate: formatPercent(s.summary.successRate) })}</span>
+                </div>
+                <div className="flex gap-2 flex-wrap justify-center">
+                  <ReportExport record={s} info={{ clinicName, patientName: patient.name }} compact />
+                  {s.summary.heatmap && (
+                    <button onClick={() => setHeatmapId(heatmapId === s.id ? null : s.id)} className="px-2 py-1 text-sm rounded-2xl bg-sky-50 hover:bg-sky-100 text-sky-700 font-bold transition-colors">
+                        {t('history.heatmap')}
+                    </button>
+                  )}
+                </div>
+                {heatmapId === s.id && s.summary.heatmap && (
+                  <div className="mt-2">
+                    <HeatMap heatmap={s.summary.heatmap} events={s.events} canvasWidth={CANVAS_WIDTH} canvasHeight={CANVAS_HEIGHT} />
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )
+      )}
+    </div>
+  );
+}
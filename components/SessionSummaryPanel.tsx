@@ -0,0 +1,88 @@
+import React from 'react';
+import { HandSide, SessionSummary } from '../types';
+import { MessageKey, i18n, t } from '../services/i18n';
+import { formatAsymmetry, formatPercent, formatSeconds } from '../services/formatters';
+
+interface Props {
+  summary: SessionSummary;
+  canvasWidth: number;
+  canvasHeight: number;
+}
+
+const SIDE_LABELS: Record<HandSide, MessageKey> = { Left: 'side.left', Right: 'side.right' };
+
+const formatAutoPauses = (count: number, ms: number) => t('metric.autoPausesValue', { count, duration: t('unit.seconds', { count: Math.round(ms / 1000) }) });
+
+export default function SessionSummaryPanel({ summary, canvasWidth, canvasHeight }: Props) {
+  const stats: { label: MessageKey; value: string }[] = [
+    { label: 'metric.successRate', value: formatPercent(summary.successRate) },
+    { label: 'metric.meanReaction', value: formatSeconds(summary.meanReactionMs) },
+    { label: 'metric.asymmetry', value: formatAsymmetry(summary.reactionAsymmetryMs) },
+    { label: 'metric.caughtEscaped', value: `${summary.birdsCaught} / ${summary.birdsEscaped}` },
+    { label: 'metric.bombHits', value: t('unit.times', { count: summary.bombHits }) },
+    ...(summary.wrongHandTouches > 0 ? [{ label: 'metric.wrongHand' as const, value: t('unit.times', { count: summary.wrongHandTouches }) }] : []),
+    // 舊紀錄沒有此欄位
+    ...(summary.autoPauses ? [{ label: 'metric.autoPauses' as const, value: formatAutoPauses(summary.autoPauses, summary.autoPausedMs ?? 0) }] : []),
+    ...(summary.compensatedReaches ? [{ label: 'metric.compensatedReaches' as const, value: t('unit.times', { count: summary.compensatedReaches }) }] : []),
+  ];
+
+  return (
+    <div className="bg-sky-50 p-4 rounded-[30px] mb-8 border-2 border-sky-100 text-left">
+      <p className="text-gray-400 text-xs font-bold uppercase tracking-widest mb-3 px-2">{t('summary.title')}</p>
+      <div className="grid grid-cols-2 gap-3 mb-3">
+        {stats.map(s => (
+          <div key={s.label} className="bg-white rounded-2xl p-3">
+            <p className="text-gray-400 text-xs font-bold">{t(s.label)}</p>
+            <p className="text-2xl font-black text-sky-900">{s.value}</p>
+          </div>
+        ))}
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        {(['Left', 'Right'] as HandSide[]).map(side => {
+          const reach = summary.reach[side];
+          return (
+            <div key={side} className="bg-white rounded-2xl p-3">
+              <p className="text-gray-400 text-xs font-bold">{t(SIDE_LABELS[side])}</p>
+              <p className="text-xl font-black text-sky-900">{t('summary.sideCatches', { count: summary.catchesBySide[side] })}</p>
+              {reach ? (
+                <p className="text-sm text-gray-500 font-bold">
+                  {t('summary.reach', {
+                    height: i18n.formatPercent(1 - reach.minY / canvasHeight),
+                    width: i18n.formatPercent((reach.maxX - reach.minX) / canvasWidth),
+                  })}
+                </p>
+              ) : (
+                <p className="text-sm text-gray-400 font-bold">{t('summary.notDetected')}</p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+      {summary.sets.length > 0 && (
+        <div className="bg-white rounded-2xl p-3 mt-3">
+          <p className="text-gray-400 text-xs font-bold mb-2">{t('summary.sets')}</p>
+          <table className="w-full text-sm font-bold text-sky-900 tabular-nums">
+            <thead>
+              <tr className="text-gray-400 text-xs">
+                <th className="text-left font-bold">{t('summary.set')}</th>
+                <th className="text-right font-bold">{t('summary.catches')}</th>
+                <th className="text-right font-bold">{t('metric.successRate')}</th>
+                <th className="text-right font-bold">{t('metric.reaction')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {summary.sets.map(set => (
+                <tr key={set.index}>
+                  <td>{t('summary.setNumber', { index: set.index + 1 })}</td>
+                  <td className="text-right">{set.birdsCaught}</td>
+                  <td className="text-right">{formatPercent(set.successRate)}</td>
+                  <td className="text-right">{formatSeconds(set.meanReactionMs)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
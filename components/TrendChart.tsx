@@ -0,0 +1,78 @@
+import React from 'react';
+import { i18n, t } from '../services/i18n';
+
+export interface TrendSeries {
+  label: string;
+  color: string;
+  points: { t: number; value: number | null }[];
+}
+
+interface Props {
+  title: string;
+  series: TrendSeries[];
+  format: (value: number) => string;
+  baseline?: number | null;
+}
+
+const WIDTH = 360;
+const HEIGHT = 160;
+const PAD_X = 40;
+const PAD_Y = 18;
+
+const formatDate = (time: number) => i18n.formatDate(time, { month: 'numeric', day: 'numeric' });
+
+// 以 SVG 繪製的趨勢圖，無需任何外部圖表套件
+export default function TrendChart({ title, series, format, baseline }: Props) {
+  const all = series.flatMap(s => s.points).filter(p => p.value !== null) as { t: number; value: number }[];
+  const times = series.flatMap(s => s.points.map(p => p.t));
+
+  if (all.length === 0) {
+    return (
+      <div className="bg-white rounded-2xl p-3">
+        <p className="text-gray-500 font-bold">{title}</p>
+        <p className="text-sm text-gray-400 font-bold py-8 text-center">{t('chart.noData')}</p>
+      </div>
+    );
+  }
+
+  const minT = Math.min(...times);
+  const maxT = Math.max(...times, minT + 1);
+  const values = [...all.map(p => p.value), ...(baseline != null ? [baseline] : [])];
+  const minV = Math.min(0, ...values);
+  const maxV = Math.max(...values, minV + 1e-6);
+  const sx = (t: number) => times.length === 1 || maxT === minT ? WIDTH / 2 : PAD_X + ((t - minT) / (maxT - minT)) * (WIDTH - PAD_X * 2);
+  const sy = (v: number) => HEIGHT - PAD_Y - ((v - minV) / (maxV - minV)) * (HEIGHT - PAD_Y * 2);
+
+  return (
+    <div className="bg-white rounded-2xl p-3">
+      <div className="flex justify-between items-center">
+        <p className="text-gray-500 font-bold">{title}</p>
+        {series.length > 1 && (
+          <div className="flex gap-3 text-xs font-bold">
+            {series.map(s => <span key={s.label} style={{ color: s.color }}>■ {s.label}</span>)}
+          </div>
+        )}
+      </div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto">
+        <line x1={PAD_X} y1={HEIGHT - PAD_Y} x2={WIDTH - PAD_X} y2={HEIGHT - PAD_Y} stroke="#CFD8DC" />
+        <text x={PAD_X - 4} y={PAD_Y + 4} textAnchor="end" fontSize="10" fill="#90A4AE">{format(maxV)}</text>
+        <text x={PAD_X - 4} y={HEIGHT - PAD_Y} textAnchor="end" fontSize="10" fill="#90A4AE">{format(minV)}</text>
+        <text x={PAD_X} y={HEIGHT - 4} fontSize="10" fill="#90A4AE">{formatDate(minT)}</text>
+        <text x={WIDTH - PAD_X} y={HEIGHT - 4} textAnchor="end" fontSize="10" fill="#90A4AE">{formatDate(maxT)}</text>
+        {baseline != null && (
+          <line x1={PAD_X} y1={sy(baseline)} x2={WIDTH - PAD_X} y2={sy(baseline)} stroke="#B0BEC5" strokeDasharray="4 4" />
+        )}
+        {series.map(s => {
+          const points = s.points.filter(p => p.value !== null) as { t: number; value: number }[];
+          const path = points.map((p, i) => `${i === 0 ? 'M' : 'L'}${sx(p.t).toFixed(1)},${sy(p.value).toFixed(1)}`).join(' ');
+          return (
+            <g key={s.label}>
+              <path d={path} fill="none" stroke={s.color} strokeWidth="2.5" />
+              {points.map(p => <circle key={p.t} cx={sx(p.t)} cy={sy(p.value)} r="3" fill={s.color} />)}
+            </g>
+          );
+        })}
+      </svg>
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+import { CompensationAction, FlightPath, GameObjectType, GameSettings, HandRule, MissPenalty, SeedMode, SetGoal, TrackingFilter } from './types';
+
+// 核心常數
+export const CANVAS_WIDTH = 1280;
+export const CANVAS_HEIGHT = 720;
+export const OBJECT_RADIUS = 40;
+
+export const DEFAULT_SETTINGS: GameSettings = {
+  speedFactor: 1.0,
+  spawnFreq: 1.2,
+  initialLives: 5,
+  reachScale: 1.0,
+  handRule: HandRule.ANY,
+  affectedSide: 'Left',
+  graspMode: false,
+  graspClosure: 0.5,
+  trackingFilter: TrackingFilter.ADAPTIVE,
+  seedMode: SeedMode.RANDOM,
+  fixedSeed: 1,
+  setsEnabled: false,
+  setCount: 3,
+  setGoal: SetGoal.TIME,
+  setDurationSec: 60,
+  setTargetCatches: 15,
+  restSec: 30,
+  adaptiveDifficulty: false,
+  targetSuccessRate: 0.75,
+  difficultyMin: 0.6,
+  difficultyMax: 1.6,
+  enabledObjects: [GameObjectType.BIRD, GameObjectType.BOMB, GameObjectType.GOLDEN_BIRD, GameObjectType.HEART],
+  flightPaths: [FlightPath.STRAIGHT],
+  missPenalty: MissPenalty.NONE,
+  missPenaltyPoints: 5,
+  masterVolume: 0.8,
+  musicVolume: 0.6,
+  sfxVolume: 1.0,
+  masterMuted: false,
+  musicMuted: false,
+  sfxMuted: false,
+  audioCues: false,
+  escapeWarningCue: true,
+  neglectMode: false,
+  neglectedSide: 'Left',
+  neglectSpawnBias: 0.7,
+  handMenu: false,
+  dwellMs: 1500,
+  palmPause: false,
+  autoPause: true,
+  autoPauseSec: 3,
+  poseTracking: false,
+  trunkLeanMaxDeg: 10,
+  shoulderHikeMaxCm: 3,
+  compensationAction: CompensationAction.FEEDBACK,
+};
@@ -0,0 +1,290 @@
+import { Catalog } from '../services/i18n';
+
+// English
+const en: Catalog = {
+  'app.title': 'Sky Catch 🦅 Deluxe Edition',
+  'app.name': 'Sky Catch 🦅',
+  'common.on': 'On',
+  'common.off': 'Off',
+  'common.guest': 'Guest',
+
+  'unit.seconds': { one: '{count} second', other: '{count} seconds' },
+  'unit.secondsValue': '{value} s',
+  'unit.secondsShort': '{value}s',
+  'unit.minutesValue': '{value} min',
+  'unit.duration': '{minutes} min {seconds} s',
+  'unit.birds': { one: '{count} bird', other: '{count} birds' },
+  'unit.birdsOf': '{count} / {target} birds',
+  'unit.times': { one: '{count} time', other: '{count} times' },
+  'unit.points': { one: '{count} point', other: '{count} points' },
+  'unit.sets': { one: '{count} set', other: '{count} sets' },
+  'unit.hearts': { one: '{count} heart', other: '{count} hearts' },
+  'unit.days': { one: '{count} day', other: '{count} days' },
+  'unit.degrees': '{value}°',
+  'unit.centimetres': '{value} cm',
+
+  'side.left': 'Left hand',
+  'side.right': 'Right hand',
+  'field.left': 'left side',
+  'field.right': 'right side',
+
+  'handRule.any': 'Either hand',
+  'handRule.affectedOnly': 'Affected side only',
+  'handRule.alternate': 'Alternate hands',
+  'handRule.bilateral': 'Both hands together',
+
+  'loadStage.downloading': 'Downloading AI model',
+  'loadStage.compiling': 'Compiling AI model',
+  'loadStage.warmingUp': 'Warming up AI model',
+  'loadStage.ready': 'AI model ready',
+
+  'inputKind.camera': '📷 Camera',
+  'inputKind.mouse': '🖱️ Mouse',
+  'inputKind.touch': '👆 Touch',
+  'inputKind.keyboard': '⌨️ Keyboard',
+  'inputKind.scripted': '🤖 Demo',
+
+  'trackingFilter.adaptive': 'Adaptive',
+  'trackingFilter.oneEuro': 'One-Euro',
+  'trackingFilter.kalman': 'Kalman',
+
+  'setGoal.time': 'By time',
+  'setGoal.catches': 'By catches',
+
+  'flightPath.straight': '➡️ Straight',
+  'flightPath.sine': '〰️ Wave',
+  'flightPath.arc': '🌈 Arc',
+  'flightPath.figureEight': '♾️ Figure eight',
+  'flightPath.midlineDiagonal': '↗️ Cross midline',
+  'flightPath.hoverDart': '⚡ Hover and dart',
+  'flightPath.verticalRise': '⬆️ Vertical rise',
+
+  'missPenalty.none': 'None',
+  'missPenalty.points': 'Lose points',
+  'missPenalty.life': 'Lose a life',
+
+  'seedMode.random': 'Random',
+  'seedMode.fixed': 'Fixed',
+  'seedMode.repeatLast': 'Same as last',
+
+  'volume.master': 'Master',
+  'volume.music': 'Music',
+  'volume.sfx': 'Effects',
+
+  'object.bird': 'Bird',
+  'object.bomb': 'Bomb',
+  'object.goldenBird': 'Golden bird',
+  'object.heart': 'Heart',
+  'object.feather': 'Feather',
+  'object.hold': 'Hold target',
+
+  'event.spawn': 'Spawn',
+  'event.catch': 'Catch',
+  'event.bombHit': 'Bomb hit',
+  'event.escape': 'Escape',
+  'event.wrongHand': 'Wrong hand',
+  'event.compensated': 'Compensated reach',
+
+  'error.title': 'Unable to start the game',
+  'error.modelLoad': 'Failed to load the AI model. Please check that the model files are installed.',
+  'error.cameraPermission': 'Please allow camera access to play 📷',
+  'error.noCamera': 'No camera found 📷',
+  'error.init': 'Initialisation error: {message}',
+  'error.reload': 'Reload page',
+  'error.useTouch': 'Play with touch instead',
+  'error.useMouse': 'Play with the mouse instead',
+
+  'game.useHand': 'Use {hand}',
+  'game.sitUpright': 'Sit up tall 🙂',
+  'hud.score': 'Score: {score}',
+  'hud.tally': 'Caught {caught} · Escaped {missed}',
+  'hud.set': 'Set {index} / {count}',
+  'hud.lives': 'Lives: {hearts}',
+  'hud.pause': '⏸️ Pause',
+
+  'rest.title': 'Take a break ☕',
+  'rest.setDone': 'Set {index} complete. Relax your arms.',
+  'rest.nextSet': 'seconds until set {index}',
+
+  'pause.title': 'Game paused',
+  'pause.resume': '▶️ Resume',
+  'pause.quit': '🚪 Quit game',
+
+  'autoPause.title': 'Bring your hands back 🖐️',
+  'autoPause.hint': 'Place your hands in the dotted circles',
+  'autoPause.resuming': { one: 'Resuming in {count} second', other: 'Resuming in {count} seconds' },
+
+  'posture.title': 'Sit up straight 🪑',
+  'posture.hint': 'Hold still while we record your posture',
+
+  'calibration.prompt': '{hand}: reach as far as you can in every direction 🖐️',
+  'calibration.remaining': { one: '{count} second left', other: '{count} seconds left' },
+  'calibration.cancel': 'Cancel calibration',
+
+  'menu.gameOver': 'Game over!',
+  'menu.highScore': 'High score',
+  'menu.thisScore': 'This round',
+  'menu.seedLabel': 'Bird sequence seed: ',
+  'menu.progress': '📈 Progress',
+  'menu.clinicName': 'Clinic name (for reports)',
+  'menu.clinicPlaceholder': 'e.g. Riverside Rehabilitation Centre',
+  'menu.language': 'Language',
+  'menu.start': 'Start flying',
+  'menu.retry': 'Try again',
+  'menu.record': '⏺️ Record this session',
+  'menu.loadReplay': '🎞️ Load recording',
+  'menu.downloadReplay': '⬇️ Download recording',
+  'menu.preparing': '⚡ Getting ready... (please allow the camera)',
+  'menu.cpuMode': ' (CPU mode)',
+
+  'settings.speed': 'Flight speed',
+  'settings.density': 'Bird density',
+  'settings.objects': 'Objects',
+  'settings.flightPaths': 'Flight paths',
+  'settings.missPenalty': 'Escape penalty',
+  'settings.penaltyPoints': 'Points per escape',
+  'settings.difficulty': 'Difficulty',
+  'settings.difficultyAdaptive': '🎯 Adaptive',
+  'settings.difficultyByScore': '📈 By score',
+  'settings.targetSuccessRate': 'Target success rate',
+  'settings.difficultyMin': 'Minimum difficulty',
+  'settings.difficultyMax': 'Maximum difficulty',
+  'settings.sets': 'Sets',
+  'settings.setsOn': '⏱️ On',
+  'settings.setsOff': '❤️ Lives',
+  'settings.setCount': 'Number of sets',
+  'settings.setDuration': 'Set length',
+  'settings.setCatches': 'Catches per set',
+  'settings.rest': 'Rest between sets',
+  'settings.initialLives': 'Starting hearts',
+  'settings.grasp': 'Grasp to catch',
+  'settings.graspOn': '✊ On',
+  'settings.graspOff': '✋ Off',
+  'settings.graspClosure': 'Closure needed',
+  'settings.handRule': 'Training mode',
+  'settings.affectedSide': 'Affected side',
+  'settings.input': 'Input',
+  'settings.tracking': 'Tracking smoothing',
+  'settings.reach': 'Range of motion',
+  'settings.calibrate': '📐 Calibrate',
+  'settings.recalibrate': '📐 Recalibrate',
+  'settings.reachRatio': 'Reaches {ratio} of the screen',
+  'settings.reachPrevious': ' (last time {ratio})',
+  'settings.uncalibrated': 'Not calibrated: birds appear across the whole screen',
+  'settings.reachTarget': 'Reach target',
+  'settings.seed': 'Bird sequence',
+  'settings.seedValue': 'Seed',
+  'settings.seedRepeat': 'Reusing last seed {seed}',
+  'settings.volume': 'Volume',
+  'settings.audioCues': 'Audio cues',
+  'settings.audioCuesOn': '🎧 On',
+  'settings.audioCuesOff': '🔈 Off',
+  'settings.escapeWarning': 'Soft sound when a target is about to escape',
+  'settings.audioCuesHint': 'Each bird chirps from its side of the screen, higher birds sound higher. Headphones recommended.',
+  'settings.neglect': 'Neglect training',
+  'settings.neglectOn': '👀 On',
+  'settings.neglectSide': 'Neglected: {side}',
+  'settings.neglectBias': 'Spawn on {side}',
+  'settings.neglectHint': 'Targets on that side move slower and get arrows and a glowing edge. Cues fade as the patient responds faster.',
+  'settings.handMenu': 'Touch-free menus',
+  'settings.handMenuOn': '🖐️ On',
+  'settings.dwellTime': 'Hover time',
+  'settings.palmPause': 'Hold an open palm still for two seconds to pause',
+  'settings.autoPause': 'Auto-pause when hands leave',
+  'settings.autoPauseOn': '⏸️ On',
+  'settings.autoPauseAfter': 'Pause after no hands for',
+  'settings.handMenuHint': 'Hold a hand over a button until the ring fills to press it. Hold over a slider to grab it, then move left or right to adjust. Hold near the top or bottom edge of a panel to scroll it.',
+  'settings.poseTracking': 'Compensation detection',
+  'settings.poseTrackingOn': '🧍 On',
+  'settings.trunkLeanMax': 'Max trunk lean',
+  'settings.shoulderHikeMax': 'Max shoulder hike',
+  'settings.compensationAction': 'When compensating',
+  'settings.poseTrackingHint': 'Each session, and each return from an auto-pause, starts with a short sit-up-straight prompt that records the baseline posture. Keep both shoulders in view. A soft orange glow around the screen means the trunk is leaning or a shoulder is hiking.',
+  'settings.poseLoading': 'Loading pose model…',
+  'settings.poseError': 'Failed to load the pose model, so compensation cannot be detected.',
+  'compensationAction.feedback': 'Count it, remind to sit up',
+  'compensationAction.reject': "Don't count it",
+
+  'patient.label': 'Patient',
+  'patient.guest': 'Guest (not saved)',
+  'patient.newPlaceholder': 'New patient name or ID',
+  'patient.add': 'Add',
+
+  'replay.exit': 'Exit replay',
+  'replay.unsupported': 'Unsupported recording file',
+
+  'metric.score': 'Score',
+  'metric.successRate': 'Success rate',
+  'metric.meanReaction': 'Mean reaction time',
+  'metric.reaction': 'Reaction time',
+  'metric.catchesLeft': 'Left-hand catches',
+  'metric.catchesRight': 'Right-hand catches',
+  'metric.reachArea': 'Reach area',
+  'metric.asymmetry': 'Left/right reaction gap',
+  'metric.asymmetryLeft': 'Left slower by {value}',
+  'metric.asymmetryRight': 'Right slower by {value}',
+  'metric.caughtEscaped': 'Caught / escaped',
+  'metric.bombHits': 'Bomb hits',
+  'metric.wrongHand': 'Wrong hand',
+  'metric.autoPauses': 'Auto-pauses',
+  'metric.autoPausesValue': { one: '{count} time · {duration}', other: '{count} times · {duration}' },
+  'metric.compensatedReaches': 'Compensated reaches',
+
+  'summary.title': 'Session summary',
+  'summary.sideCatches': { one: 'Caught {count} bird', other: 'Caught {count} birds' },
+  'summary.reach': 'Highest {height} · Width {width}',
+  'summary.notDetected': 'Not detected',
+  'summary.sets': 'Sets',
+  'summary.set': 'Set',
+  'summary.catches': 'Caught',
+  'summary.setNumber': 'Set {index}',
+
+  'history.title': 'Session history',
+  'history.empty': 'No sessions yet',
+  'history.item': '{score} pts · Success {rate}',
+  'history.heatmap': '🔥 Heat map',
+
+  'heatmap.title': 'Activity heat map (same orientation as the game)',
+  'heatmap.both': 'Both',
+  'heatmap.topLeft': 'Top left',
+  'heatmap.topRight': 'Top right',
+  'heatmap.bottomLeft': 'Bottom left',
+  'heatmap.bottomRight': 'Bottom right',
+  'heatmap.caught': 'Caught',
+  'heatmap.escaped': 'Escaped',
+  'heatmap.share': 'Time spent: ',
+
+  'progress.title': '📈 Progress for {name}',
+  'progress.back': 'Back',
+  'progress.all': 'All',
+  'progress.to': 'to',
+  'progress.count': { one: '{count} session', other: '{count} sessions' },
+  'progress.compare': '{date} compared with baseline (average of first {count})',
+  'progress.empty': 'No sessions in this period',
+  'progress.catchesByHand': 'Catches per hand',
+  'progress.calibratedReach': 'Calibrated reach',
+  'chart.noData': 'No data',
+
+  'report.print': '🖨️ Print / PDF',
+  'report.title': 'Session report - {name} - {date}',
+  'report.subtitle': 'Upper-limb training report',
+  'report.patient': 'Patient: ',
+  'report.date': 'Date: {date}',
+  'report.prescription': 'Prescription',
+  'report.footer': 'Generated {date} · Export CSV or JSON for the full event log',
+  'report.duration': 'Duration',
+  'report.catchesBySide': 'Left / right catches',
+  'report.graspOn': 'On ({closure})',
+  'report.difficultyAdaptive': 'Adaptive (target {rate})',
+  'report.difficultyByScore': 'By score',
+  'report.neglect': 'Neglected: {side} (spawn {bias})',
+  'report.audioCuesWithWarning': 'On (with escape warning)',
+  'report.seed': 'Bird sequence seed',
+  'report.compensation': 'Lean {lean} · hike {hike} · {action}',
+  'report.difficultyCurve': 'Difficulty',
+  'report.setSuccess': 'Success rate per set',
+  'report.setShort': 'Set {index}',
+  'report.reach': 'Reach',
+};
+
+export default en;
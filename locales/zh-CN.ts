@@ -0,0 +1,290 @@
+import { Catalog } from '../services/i18n';
+
+// 简体中文
+const zhCN: Catalog = {
+  'app.title': '空中抓小鸟 🦅 豪华终极版',
+  'app.name': '空中抓小鸟 🦅',
+  'common.on': '开启',
+  'common.off': '关闭',
+  'common.guest': '访客',
+
+  'unit.seconds': '{count} 秒',
+  'unit.secondsValue': '{value} 秒',
+  'unit.secondsShort': '{value}s',
+  'unit.minutesValue': '{value} 分钟',
+  'unit.duration': '{minutes} 分 {seconds} 秒',
+  'unit.birds': '{count} 只',
+  'unit.birdsOf': '{count} / {target} 只',
+  'unit.times': '{count} 次',
+  'unit.points': '{count} 分',
+  'unit.sets': '{count} 组',
+  'unit.hearts': '{count} 颗',
+  'unit.days': '{count} 天',
+  'unit.degrees': '{value}°',
+  'unit.centimetres': '{value} 厘米',
+
+  'side.left': '左手',
+  'side.right': '右手',
+  'field.left': '左侧',
+  'field.right': '右侧',
+
+  'handRule.any': '任意一只手',
+  'handRule.affectedOnly': '只计患侧',
+  'handRule.alternate': '左右交替',
+  'handRule.bilateral': '双手合作',
+
+  'loadStage.downloading': '下载 AI 模型',
+  'loadStage.compiling': '编译 AI 模型',
+  'loadStage.warmingUp': '预热 AI 模型',
+  'loadStage.ready': 'AI 模型准备完成',
+
+  'inputKind.camera': '📷 摄像头',
+  'inputKind.mouse': '🖱️ 鼠标',
+  'inputKind.touch': '👆 触控',
+  'inputKind.keyboard': '⌨️ 键盘',
+  'inputKind.scripted': '🤖 演示',
+
+  'trackingFilter.adaptive': '自适应',
+  'trackingFilter.oneEuro': 'One-Euro',
+  'trackingFilter.kalman': 'Kalman',
+
+  'setGoal.time': '按时间',
+  'setGoal.catches': '按抓取数',
+
+  'flightPath.straight': '➡️ 直线',
+  'flightPath.sine': '〰️ 波浪',
+  'flightPath.arc': '🌈 抛物线',
+  'flightPath.figureEight': '♾️ 8 字',
+  'flightPath.midlineDiagonal': '↗️ 跨越中线',
+  'flightPath.hoverDart': '⚡ 停顿急冲',
+  'flightPath.verticalRise': '⬆️ 垂直上升',
+
+  'missPenalty.none': '不惩罚',
+  'missPenalty.points': '扣分',
+  'missPenalty.life': '扣生命',
+
+  'seedMode.random': '随机',
+  'seedMode.fixed': '固定',
+  'seedMode.repeatLast': '同上次',
+
+  'volume.master': '总音量',
+  'volume.music': '音乐',
+  'volume.sfx': '音效',
+
+  'object.bird': '小鸟',
+  'object.bomb': '炸弹',
+  'object.goldenBird': '金色小鸟',
+  'object.heart': '爱心',
+  'object.feather': '羽毛',
+  'object.hold': '停留目标',
+
+  'event.spawn': '出现',
+  'event.catch': '抓取',
+  'event.bombHit': '碰到炸弹',
+  'event.escape': '飞走',
+  'event.wrongHand': '用错手',
+  'event.compensated': '代偿动作',
+
+  'error.title': '无法启动游戏',
+  'error.modelLoad': 'AI 模型加载失败，请检查模型文件是否已安装',
+  'error.cameraPermission': '请允许使用摄像头权限以进行游戏 📷',
+  'error.noCamera': '找不到摄像头设备 📷',
+  'error.init': '初始化错误: {message}',
+  'error.reload': '刷新页面',
+  'error.useTouch': '改用触控游玩',
+  'error.useMouse': '改用鼠标游玩',
+
+  'game.useHand': '请用{hand}',
+  'game.sitUpright': '坐直一点 🙂',
+  'hud.score': '得分: {score}',
+  'hud.tally': '抓到 {caught} · 飞走 {missed}',
+  'hud.set': '第 {index} / {count} 组',
+  'hud.lives': '生命: {hearts}',
+  'hud.pause': '⏸️ 暂停',
+
+  'rest.title': '休息一下 ☕',
+  'rest.setDone': '第 {index} 组完成，放松手臂',
+  'rest.nextSet': '秒后开始第 {index} 组',
+
+  'pause.title': '游戏已暂停',
+  'pause.resume': '▶️ 继续游戏',
+  'pause.quit': '🚪 退出游戏',
+
+  'autoPause.title': '请把手放回画面 🖐️',
+  'autoPause.hint': '把手放在虚线圆圈内',
+  'autoPause.resuming': '{count} 秒后继续',
+
+  'posture.title': '请坐直 🪑',
+  'posture.hint': '保持不动，正在记录坐姿',
+
+  'calibration.prompt': '请用{hand}尽量向四周伸展 🖐️',
+  'calibration.remaining': '剩余 {count} 秒',
+  'calibration.cancel': '取消校准',
+
+  'menu.gameOver': '游戏结束!',
+  'menu.highScore': '历史最高',
+  'menu.thisScore': '本次得分',
+  'menu.seedLabel': '出鸟序列种子：',
+  'menu.progress': '📈 进度总览',
+  'menu.clinicName': '机构名称 (报告用)',
+  'menu.clinicPlaceholder': '例如：某某康复中心',
+  'menu.language': '语言',
+  'menu.start': '开始飞行',
+  'menu.retry': '再试一次',
+  'menu.record': '⏺️ 录制本次训练',
+  'menu.loadReplay': '🎞️ 载入录像',
+  'menu.downloadReplay': '⬇️ 下载录像',
+  'menu.preparing': '⚡ 系统准备中... (请允许摄像头)',
+  'menu.cpuMode': ' (CPU 模式)',
+
+  'settings.speed': '飞行速度',
+  'settings.density': '小鸟密度',
+  'settings.objects': '出现物件',
+  'settings.flightPaths': '飞行路线',
+  'settings.missPenalty': '飞走惩罚',
+  'settings.penaltyPoints': '每次扣分',
+  'settings.difficulty': '难度调节',
+  'settings.difficultyAdaptive': '🎯 自动',
+  'settings.difficultyByScore': '📈 按得分',
+  'settings.targetSuccessRate': '目标成功率',
+  'settings.difficultyMin': '最低难度',
+  'settings.difficultyMax': '最高难度',
+  'settings.sets': '分组训练',
+  'settings.setsOn': '⏱️ 开启',
+  'settings.setsOff': '❤️ 生命制',
+  'settings.setCount': '组数',
+  'settings.setDuration': '每组时间',
+  'settings.setCatches': '每组抓取',
+  'settings.rest': '组间休息',
+  'settings.initialLives': '初始爱心',
+  'settings.grasp': '握拳抓取',
+  'settings.graspOn': '✊ 开启',
+  'settings.graspOff': '✋ 关闭',
+  'settings.graspClosure': '需要握合',
+  'settings.handRule': '训练模式',
+  'settings.affectedSide': '患侧',
+  'settings.input': '输入方式',
+  'settings.tracking': '追踪平滑',
+  'settings.reach': '活动范围',
+  'settings.calibrate': '📐 开始校准',
+  'settings.recalibrate': '📐 重新校准',
+  'settings.reachRatio': '可达 {ratio} 画面',
+  'settings.reachPrevious': ' (上次 {ratio})',
+  'settings.uncalibrated': '未校准：小鸟会在整个画面出现',
+  'settings.reachTarget': '伸展目标',
+  'settings.seed': '出鸟序列',
+  'settings.seedValue': '种子',
+  'settings.seedRepeat': '沿用上次的种子 {seed}',
+  'settings.volume': '音量',
+  'settings.audioCues': '声音提示',
+  'settings.audioCuesOn': '🎧 开启',
+  'settings.audioCuesOff': '🔈 关闭',
+  'settings.escapeWarning': '目标快要飞走时轻声提示',
+  'settings.audioCuesHint': '出鸟时按位置发出左右声道提示，越高音调越高，建议配合耳机使用',
+  'settings.neglect': '单侧忽略训练',
+  'settings.neglectOn': '👀 开启',
+  'settings.neglectSide': '忽略{side}',
+  'settings.neglectBias': '出现在{side}',
+  'settings.neglectHint': '该侧目标会放慢并有箭头及边缘发光提示，患者反应改善后提示会逐渐减弱',
+  'settings.handMenu': '免触控菜单',
+  'settings.handMenuOn': '🖐️ 开启',
+  'settings.dwellTime': '停留时间',
+  'settings.palmPause': '游戏中张开手掌停住两秒即暂停',
+  'settings.autoPause': '手离开时自动暂停',
+  'settings.autoPauseOn': '⏸️ 开启',
+  'settings.autoPauseAfter': '未检测到手多久后暂停',
+  'settings.handMenuHint': '把手停在按钮上直到圆圈填满即可按下；停在滑块上会抓住滑块，再左右移动调整；停在面板顶部或底部边缘可上下卷动',
+  'settings.poseTracking': '代偿动作检测',
+  'settings.poseTrackingOn': '🧍 开启',
+  'settings.trunkLeanMax': '躯干倾斜上限',
+  'settings.shoulderHikeMax': '耸肩上限',
+  'settings.compensationAction': '检测到代偿时',
+  'settings.poseTrackingHint': '开始时及自动暂停后会先提示病人坐直，以当时的坐姿为基准，请让双肩在镜头内；画面四周出现橙色光晕即表示正在倾斜躯干或耸肩',
+  'settings.poseLoading': '正在加载姿势模型…',
+  'settings.poseError': '姿势模型加载失败，无法检测代偿动作',
+  'compensationAction.feedback': '照常计算，提示坐直',
+  'compensationAction.reject': '不计算',
+
+  'patient.label': '患者',
+  'patient.guest': '访客 (不记录)',
+  'patient.newPlaceholder': '新患者姓名或编号',
+  'patient.add': '新增',
+
+  'replay.exit': '退出回放',
+  'replay.unsupported': '不支持的录像文件',
+
+  'metric.score': '得分',
+  'metric.successRate': '成功率',
+  'metric.meanReaction': '平均反应时间',
+  'metric.reaction': '反应时间',
+  'metric.catchesLeft': '左手抓取',
+  'metric.catchesRight': '右手抓取',
+  'metric.reachArea': '可达范围',
+  'metric.asymmetry': '左右反应差',
+  'metric.asymmetryLeft': '左侧慢 {value}',
+  'metric.asymmetryRight': '右侧慢 {value}',
+  'metric.caughtEscaped': '抓到 / 飞走',
+  'metric.bombHits': '碰到炸弹',
+  'metric.wrongHand': '用错手',
+  'metric.autoPauses': '自动暂停',
+  'metric.autoPausesValue': '{count} 次 · {duration}',
+  'metric.compensatedReaches': '代偿伸手',
+
+  'summary.title': '训练摘要',
+  'summary.sideCatches': '抓到 {count} 只',
+  'summary.reach': '最高 {height} · 横向 {width}',
+  'summary.notDetected': '未检测到',
+  'summary.sets': '各组表现',
+  'summary.set': '组',
+  'summary.catches': '抓取',
+  'summary.setNumber': '第 {index} 组',
+
+  'history.title': '训练记录',
+  'history.empty': '暂无记录',
+  'history.item': '{score} 分 · 成功率 {rate}',
+  'history.heatmap': '🔥 热图',
+
+  'heatmap.title': '活动热图 (与游戏画面方向相同)',
+  'heatmap.both': '双手',
+  'heatmap.topLeft': '左上',
+  'heatmap.topRight': '右上',
+  'heatmap.bottomLeft': '左下',
+  'heatmap.bottomRight': '右下',
+  'heatmap.caught': '抓到',
+  'heatmap.escaped': '飞走',
+  'heatmap.share': '停留比例：',
+
+  'progress.title': '📈 {name} 的进度',
+  'progress.back': '返回',
+  'progress.all': '全部',
+  'progress.to': '至',
+  'progress.count': '共 {count} 次训练',
+  'progress.compare': '{date} 与基线 (最早 {count} 次平均) 比较',
+  'progress.empty': '此期间没有训练记录',
+  'progress.catchesByHand': '每只手抓取',
+  'progress.calibratedReach': '校准可达范围',
+  'chart.noData': '没有数据',
+
+  'report.print': '🖨️ 打印 / PDF',
+  'report.title': '训练报告 - {name} - {date}',
+  'report.subtitle': '上肢训练报告',
+  'report.patient': '患者：',
+  'report.date': '日期：{date}',
+  'report.prescription': '训练处方',
+  'report.footer': '报告生成于 {date} · 详细事件记录请导出 CSV 或 JSON',
+  'report.duration': '训练时间',
+  'report.catchesBySide': '左手 / 右手抓取',
+  'report.graspOn': '开启 ({closure})',
+  'report.difficultyAdaptive': '自动 (目标 {rate})',
+  'report.difficultyByScore': '按得分',
+  'report.neglect': '忽略{side} (出现 {bias})',
+  'report.audioCuesWithWarning': '开启 (含飞走提示)',
+  'report.seed': '出鸟序列种子',
+  'report.compensation': '倾斜 {lean} · 耸肩 {hike} · {action}',
+  'report.difficultyCurve': '难度变化',
+  'report.setSuccess': '各组成功率',
+  'report.setShort': '第{index}组',
+  'report.reach': '伸展范围',
+};
+
+export default zhCN;
@@ -0,0 +1,288 @@
+// 繁體中文 (香港)：基準文字目錄，新增文字時先加在這裏
+const zhHK = {
+  'app.title': '空中捉雀鳥 🦅 豪華終極版',
+  'app.name': '空中捉雀鳥 🦅',
+  'common.on': '開啟',
+  'common.off': '關閉',
+  'common.guest': '訪客',
+
+  'unit.seconds': '{count} 秒',
+  'unit.secondsValue': '{value} 秒',
+  'unit.secondsShort': '{value}s',
+  'unit.minutesValue': '{value} 分',
+  'unit.duration': '{minutes} 分 {seconds} 秒',
+  'unit.birds': '{count} 隻',
+  'unit.birdsOf': '{count} / {target} 隻',
+  'unit.times': '{count} 次',
+  'unit.points': '{count} 分',
+  'unit.sets': '{count} 組',
+  'unit.hearts': '{count} 個',
+  'unit.days': '{count} 日',
+  'unit.degrees': '{value}°',
+  'unit.centimetres': '{value} 厘米',
+
+  'side.left': '左手',
+  'side.right': '右手',
+  'field.left': '左邊',
+  'field.right': '右邊',
+
+  'handRule.any': '任何一隻手',
+  'handRule.affectedOnly': '只計患側',
+  'handRule.alternate': '左右交替',
+  'handRule.bilateral': '雙手合作',
+
+  'loadStage.downloading': '下載 AI 模型',
+  'loadStage.compiling': '編譯 AI 模型',
+  'loadStage.warmingUp': '預熱 AI 模型',
+  'loadStage.ready': 'AI 模型準備完成',
+
+  'inputKind.camera': '📷 鏡頭',
+  'inputKind.mouse': '🖱️ 滑鼠',
+  'inputKind.touch': '👆 觸控',
+  'inputKind.keyboard': '⌨️ 鍵盤',
+  'inputKind.scripted': '🤖 示範',
+
+  'trackingFilter.adaptive': '自適應',
+  'trackingFilter.oneEuro': 'One-Euro',
+  'trackingFilter.kalman': 'Kalman',
+
+  'setGoal.time': '按時間',
+  'setGoal.catches': '按捕捉數',
+
+  'flightPath.straight': '➡️ 直線',
+  'flightPath.sine': '〰️ 波浪',
+  'flightPath.arc': '🌈 拋物線',
+  'flightPath.figureEight': '♾️ 8 字',
+  'flightPath.midlineDiagonal': '↗️ 跨越中線',
+  'flightPath.hoverDart': '⚡ 停頓急衝',
+  'flightPath.verticalRise': '⬆️ 垂直上升',
+
+  'missPenalty.none': '不懲罰',
+  'missPenalty.points': '扣分',
+  'missPenalty.life': '扣生命',
+
+  'seedMode.random': '隨機',
+  'seedMode.fixed': '固定',
+  'seedMode.repeatLast': '同上次',
+
+  'volume.master': '總音量',
+  'volume.music': '音樂',
+  'volume.sfx': '音效',
+
+  'object.bird': '雀鳥',
+  'object.bomb': '炸彈',
+  'object.goldenBird': '金色雀鳥',
+  'object.heart': '心心',
+  'object.feather': '羽毛',
+  'object.hold': '停留目標',
+
+  'event.spawn': '出現',
+  'event.catch': '捕捉',
+  'event.bombHit': '碰到炸彈',
+  'event.escape': '飛走',
+  'event.wrongHand': '用錯手',
+  'event.compensated': '代償動作',
+
+  'error.title': '無法啟動遊戲',
+  'error.modelLoad': 'AI 模型載入失敗，請檢查模型檔案是否已安裝',
+  'error.cameraPermission': '請允許使用相機權限以進行遊戲 📷',
+  'error.noCamera': '找不到相機裝置 📷',
+  'error.init': '初始化錯誤: {message}',
+  'error.reload': '重新整理頁面',
+  'error.useTouch': '改用觸控遊玩',
+  'error.useMouse': '改用滑鼠遊玩',
+
+  'game.useHand': '請用{hand}',
+  'game.sitUpright': '坐直一點 🙂',
+  'hud.score': '得分: {score}',
+  'hud.tally': '捕捉 {caught} · 飛走 {missed}',
+  'hud.set': '第 {index} / {count} 組',
+  'hud.lives': '生命: {hearts}',
+  'hud.pause': '⏸️ 暫停',
+
+  'rest.title': '休息一下 ☕',
+  'rest.setDone': '第 {index} 組完成，放鬆手臂',
+  'rest.nextSet': '秒後開始第 {index} 組',
+
+  'pause.title': '遊戲已暫停',
+  'pause.resume': '▶️ 繼續遊戲',
+  'pause.quit': '🚪 退出遊戲',
+
+  'autoPause.title': '請把手放回畫面 🖐️',
+  'autoPause.hint': '把手放在虛線圓圈內',
+  'autoPause.resuming': '{count} 秒後繼續',
+
+  'posture.title': '請坐直 🪑',
+  'posture.hint': '保持不動，正在記錄坐姿',
+
+  'calibration.prompt': '請用{hand}盡量向四周伸展 🖐️',
+  'calibration.remaining': '剩餘 {count} 秒',
+  'calibration.cancel': '取消校準',
+
+  'menu.gameOver': '遊戲結束!',
+  'menu.highScore': '歷史最高',
+  'menu.thisScore': '本次得分',
+  'menu.seedLabel': '出鳥序列種子：',
+  'menu.progress': '📈 進度總覽',
+  'menu.clinicName': '診所名稱 (報告用)',
+  'menu.clinicPlaceholder': '例如：某某復康中心',
+  'menu.language': '語言',
+  'menu.start': '開始飛行',
+  'menu.retry': '再試一次',
+  'menu.record': '⏺️ 錄製本次訓練',
+  'menu.loadReplay': '🎞️ 載入錄影',
+  'menu.downloadReplay': '⬇️ 下載錄影',
+  'menu.preparing': '⚡ 系統準備中... (請允許相機)',
+  'menu.cpuMode': ' (CPU 模式)',
+
+  'settings.speed': '飛行速度',
+  'settings.density': '雀鳥密度',
+  'settings.objects': '出現物件',
+  'settings.flightPaths': '飛行路線',
+  'settings.missPenalty': '飛走懲罰',
+  'settings.penaltyPoints': '每次扣分',
+  'settings.difficulty': '難度調節',
+  'settings.difficultyAdaptive': '🎯 自動',
+  'settings.difficultyByScore': '📈 按得分',
+  'settings.targetSuccessRate': '目標成功率',
+  'settings.difficultyMin': '最低難度',
+  'settings.difficultyMax': '最高難度',
+  'settings.sets': '分組訓練',
+  'settings.setsOn': '⏱️ 開啟',
+  'settings.setsOff': '❤️ 生命制',
+  'settings.setCount': '組數',
+  'settings.setDuration': '每組時間',
+  'settings.setCatches': '每組捕捉',
+  'settings.rest': '組間休息',
+  'settings.initialLives': '起始心心',
+  'settings.grasp': '握拳捕捉',
+  'settings.graspOn': '✊ 開啟',
+  'settings.graspOff': '✋ 關閉',
+  'settings.graspClosure': '需要合上',
+  'settings.handRule': '訓練模式',
+  'settings.affectedSide': '患側',
+  'settings.input': '輸入方式',
+  'settings.tracking': '追蹤平滑',
+  'settings.reach': '活動範圍',
+  'settings.calibrate': '📐 開始校準',
+  'settings.recalibrate': '📐 重新校準',
+  'settings.reachRatio': '可達 {ratio} 畫面',
+  'settings.reachPrevious': ' (上次 {ratio})',
+  'settings.uncalibrated': '未校準：雀鳥會在整個畫面出現',
+  'settings.reachTarget': '伸展目標',
+  'settings.seed': '出鳥序列',
+  'settings.seedValue': '種子',
+  'settings.seedRepeat': '沿用上次的種子 {seed}',
+  'settings.volume': '音量',
+  'settings.audioCues': '聲音提示',
+  'settings.audioCuesOn': '🎧 開啟',
+  'settings.audioCuesOff': '🔈 關閉',
+  'settings.escapeWarning': '目標快將飛走時輕聲提示',
+  'settings.audioCuesHint': '出鳥時按位置發出左右聲道提示，越高音調越高，建議配合耳機使用',
+  'settings.neglect': '半側忽略訓練',
+  'settings.neglectOn': '👀 開啟',
+  'settings.neglectSide': '忽略{side}',
+  'settings.neglectBias': '出現在{side}',
+  'settings.neglectHint': '該側目標會放慢並有箭嘴及邊緣發光提示，病人反應改善後提示會逐漸減弱',
+  'settings.handMenu': '免觸控選單',
+  'settings.handMenuOn': '🖐️ 開啟',
+  'settings.dwellTime': '停留時間',
+  'settings.palmPause': '遊戲中張開手掌停定兩秒即暫停',
+  'settings.autoPause': '手離開時自動暫停',
+  'settings.autoPauseOn': '⏸️ 開啟',
+  'settings.autoPauseAfter': '沒有偵測到手多久後暫停',
+  'settings.handMenuHint': '把手停在按鈕上直至圓圈填滿即可按下；停在滑桿上會抓住滑桿，再左右移動調整；停在面板頂部或底部邊緣可上下捲動',
+  'settings.poseTracking': '代償動作偵測',
+  'settings.poseTrackingOn': '🧍 開啟',
+  'settings.trunkLeanMax': '軀幹傾側上限',
+  'settings.shoulderHikeMax': '聳肩上限',
+  'settings.compensationAction': '偵測到代償時',
+  'settings.poseTrackingHint': '開始時及自動暫停後會先提示病人坐直，以當時的坐姿為基準，請讓雙肩在鏡頭內；畫面四周出現橙色光暈即代表正在傾側軀幹或聳肩',
+  'settings.poseLoading': '正在載入姿勢模型…',
+  'settings.poseError': '姿勢模型載入失敗，未能偵測代償動作',
+  'compensationAction.feedback': '照常計算，提示坐直',
+  'compensationAction.reject': '不計算',
+
+  'patient.label': '病人',
+  'patient.guest': '訪客 (不記錄)',
+  'patient.newPlaceholder': '新病人姓名或編號',
+  'patient.add': '新增',
+
+  'replay.exit': '退出重播',
+  'replay.unsupported': '不支援的錄影檔案',
+
+  'metric.score': '得分',
+  'metric.successRate': '成功率',
+  'metric.meanReaction': '平均反應時間',
+  'metric.reaction': '反應時間',
+  'metric.catchesLeft': '左手捕捉',
+  'metric.catchesRight': '右手捕捉',
+  'metric.reachArea': '可達範圍',
+  'metric.asymmetry': '左右反應差',
+  'metric.asymmetryLeft': '左邊慢 {value}',
+  'metric.asymmetryRight': '右邊慢 {value}',
+  'metric.caughtEscaped': '捕捉 / 飛走',
+  'metric.bombHits': '碰到炸彈',
+  'metric.wrongHand': '用錯手',
+  'metric.autoPauses': '自動暫停',
+  'metric.autoPausesValue': '{count} 次 · {duration}',
+  'metric.compensatedReaches': '代償伸手',
+
+  'summary.title': '訓練摘要',
+  'summary.sideCatches': '捕捉 {count} 隻',
+  'summary.reach': '最高 {height} · 橫向 {width}',
+  'summary.notDetected': '未偵測到',
+  'summary.sets': '各組表現',
+  'summary.set': '組',
+  'summary.catches': '捕捉',
+  'summary.setNumber': '第 {index} 組',
+
+  'history.title': '訓練紀錄',
+  'history.empty': '暫無紀錄',
+  'history.item': '{score} 分 · 成功率 {rate}',
+  'history.heatmap': '🔥 熱圖',
+
+  'heatmap.title': '活動熱圖 (與遊戲畫面相同方向)',
+  'heatmap.both': '雙手',
+  'heatmap.topLeft': '左上',
+  'heatmap.topRight': '右上',
+  'heatmap.bottomLeft': '左下',
+  'heatmap.bottomRight': '右下',
+  'heatmap.caught': '捕捉',
+  'heatmap.escaped': '飛走',
+  'heatmap.share': '停留比例：',
+
+  'progress.title': '📈 {name} 的進度',
+  'progress.back': '返回',
+  'progress.all': '全部',
+  'progress.to': '至',
+  'progress.count': '共 {count} 次訓練',
+  'progress.compare': '{date} 與基線 (最早 {count} 次平均) 比較',
+  'progress.empty': '此期間沒有訓練紀錄',
+  'progress.catchesByHand': '每隻手捕捉',
+  'progress.calibratedReach': '校準可達範圍',
+  'chart.noData': '沒有資料',
+
+  'report.print': '🖨️ 列印 / PDF',
+  'report.title': '訓練報告 - {name} - {date}',
+  'report.subtitle': '上肢訓練報告',
+  'report.patient': '病人：',
+  'report.date': '日期：{date}',
+  'report.prescription': '訓練處方',
+  'report.footer': '報告產生於 {date} · 詳細事件紀錄請匯出 CSV 或 JSON',
+  'report.duration': '訓練時間',
+  'report.catchesBySide': '左手 / 右手捕捉',
+  'report.graspOn': '開啟 ({closure})',
+  'report.difficultyAdaptive': '自動 (目標 {rate})',
+  'report.difficultyByScore': '按得分',
+  'report.neglect': '忽略{side} (出現 {bias})',
+  'report.audioCuesWithWarning': '開啟 (含飛走提示)',
+  'report.seed': '出鳥序列種子',
+  'report.compensation': '傾側 {lean} · 聳肩 {hike} · {action}',
+  'report.difficultyCurve': '難度變化',
+  'report.setSuccess': '各組成功率',
+  'report.setShort': '第{index}組',
+  'report.reach': '伸展範圍',
+};
+
+export default zhHK;
@@ -0,0 +1,26 @@
+// 下載手部及姿勢模型到 public/models，隨 App 一同發佈以便離線使用
+import fs from 'fs';
+import path from 'path';
+
+const MODELS = [
+  { url: 'https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task', file: 'hand_landmarker.task' },
+  // 代償動作偵測 (可選) 使用
+  { url: 'https://storage.googleapis.com/mediapipe-models/pose_landmarker/pose_landmarker_lite/float16/1/pose_landmarker_lite.task', file: 'pose_landmarker_lite.task' },
+];
+
+for (const { url, file } of MODELS) {
+  const target = path.resolve('public/models', file);
+  if (fs.existsSync(target)) {
+    console.log(`模型已存在: ${target}`);
+    continue;
+  }
+
+  const response = await fetch(url);
+  if (!response.ok) {
+    console.error(`下載失敗 (${response.status}): ${url}`);
+    process.exit(1);
+  }
+  fs.mkdirSync(path.dirname(target), { recursive: true });
+  fs.writeFileSync(target, Buffer.from(await response.arrayBuffer()));
+  console.log(`已下載模型: ${target}`);
+}
@@ -0,0 +1,103 @@
+import { Landmark, LandmarkFrame } from '../handTracker';
+
+// 手部追蹤測試資料：以畫面座標描述每次偵測，轉換為 MediaPipe 的輸出格式 (未鏡像、左右標籤相反)
+// 這些場景由程式合成，並非真實鏡頭錄得的關鍵點：手形固定、移動等速，沒有真實偵測的抖動
+
+export const FIXTURE_WIDTH = 1280;
+export const FIXTURE_HEIGHT = 720;
+export const DETECTION_INTERVAL_MS = 70;
+
+export interface FixtureHand {
+  x: number; // 畫面座標 (px)
+  y: number;
+  label: 'Left' | 'Right'; // MediaPipe 的標籤，鏡像後 'Left' 為病人的右手
+}
+
+export interface HandScenario {
+  detections: (FixtureHand[] | null)[]; // 每 DETECTION_INTERVAL_MS 一次，null 為沒有偵測結果
+}
+
+// 手腕在中指根部下方，指尖在上方，張開程度約 0.9
+function toLandmarks(hand: FixtureHand): Landmark[] {
+  const x = 1 - hand.x / FIXTURE_WIDTH;
+  const y = hand.y / FIXTURE_HEIGHT;
+  return Array.from({ length: 21 }, (_, i) => {
+    if (i === 0) return { x, y: y + 0.05 };
+    if ([4, 8, 12, 16, 20].includes(i)) return { x, y: y - 0.04 };
+    return { x, y };
+  });
+}
+
+export function toLandmarkFrame(hands: FixtureHand[] | null): LandmarkFrame | null {
+  if (!hands) return null;
+  return {
+    landmarks: hands.map(toLandmarks),
+    handedness: hands.map(h => [{ categoryName: h.label }])
+  };
+}
+
+const lerp = (from: number, to: number, ratio: number) => from + (to - from) * ratio;
+
+// 由 from 等速移動到 to，共 count 次偵測 (包括兩端)
+function path(from: [number, number], to: [number, number], count: number) {
+  return Array.from({ length: count }, (_, i) => {
+    const ratio = count > 1 ? i / (count - 1) : 1;
+    return { x: lerp(from[0], to[0], ratio), y: lerp(from[1], to[1], ratio) };
+  });
+}
+
+const still = (point: [number, number], count: number) => path(point, point, count);
+
+const LEFT_START: [number, number] = [400, 400];
+const RIGHT_START: [number, number] = [880, 400];
+
+// 兩手靜止，偵測順序每次對調，中段有三次左右標籤互換
+export const idSwap: HandScenario = {
+  detections: still(LEFT_START, 30).map((left, i) => {
+    const swapped = i >= 12 && i < 15;
+    const leftHand: FixtureHand = { ...left, label: swapped ? 'Left' : 'Right' };
+    const rightHand: FixtureHand = { x: RIGHT_START[0], y: RIGHT_START[1], label: swapped ? 'Right' : 'Left' };
+    return i % 2 === 0 ? [leftHand, rightHand] : [rightHand, leftHand];
+  })
+};
+
+// 一隻手向右移動，中途短暫失去偵測，之後在延續的位置重新出現
+export const shortDropout: HandScenario = {
+  detections: path([300, 400], [900, 400], 31).map((point, i) => i >= 10 && i < 15 ? null : [{ ...point, label: 'Right' as const }])
+};
+
+// 一隻手等速向右移動，用於比較各濾波器的延遲
+export const steadySweep: HandScenario = {
+  detections: path([200, 400], [1000, 400], 41).map(point => [{ ...point, label: 'Right' as const }])
+};
+
+// 失去偵測超過保留時間，手被移除後重新出現
+export const longDropout: HandScenario = {
+  detections: [
+    ...still([500, 400], 10).map(point => [{ ...point, label: 'Right' as const }]),
+    ...Array.from({ length: 45 }, () => null),
+    ...still([500, 400], 5).map(point => [{ ...point, label: 'Right' as const }]),
+  ]
+};
+
+// 兩手在中線交叉：左手由左至右，右手由右至左，交叉後停定
+export const crossing: HandScenario = {
+  detections: [
+    ...path([300, 340], [980, 340], 25).map((left, i) => {
+      const right = path([980, 460], [300, 460], 25)[i];
+      return [{ ...left, label: 'Right' as const }, { ...right, label: 'Left' as const }];
+    }),
+    ...Array.from({ length: 15 }, () => [
+      { x: 980, y: 340, label: 'Right' as const },
+      { x: 300, y: 460, label: 'Left' as const }
+    ]),
+  ]
+};
+
+// 左手伸向右手時短暫失去偵測，正在補間的左手不可搶走右手的偵測
+export const dropoutBesideOtherHand: HandScenario = {
+  detections: path([450, 450], [700, 450], 16).map((left, i) => {
+    const right: FixtureHand = { x: 960, y: 450, label: 'Left' };
+    return i >= 10 && i < 14 ? [right] : [{ ...left, label: 'Right' }, right];
+  })
+};
@@ -0,0 +1,26 @@
+import { GameObject } from '../types';
+import { ObjectTypeDef } from './objectRegistry';
+
+// 聲音提示：把物件位置換算成左右聲像與音高，並預計目標何時離開畫面
+
+// 目標離開前多久發出提示
+const ESCAPE_WARNING_MS = 1200;
+const FRAME_MS = 1000 / 60;
+
+const clamp = (v: number, min: number, max: number) => Math.min(max, Math.max(min, v));
+
+// 畫面左緣 -1，右緣 1
+export const panForX = (x: number, width: number) => clamp((x / width) * 2 - 1, -1, 1);
+
+// 畫面底部 0，頂部 1
+export const heightForY = (y: number, height: number) => clamp(1 - y / height, 0, 1);
+
+export function isAboutToEscape(obj: GameObject, def: ObjectTypeDef, now: number, width: number, height: number): boolean {
+  const age = now - obj.spawnedAt;
+  if (obj.path) return obj.path.durationMs - age <= ESCAPE_WARNING_MS;
+  if (def.lifetimeMs !== undefined) return def.lifetimeMs - age <= ESCAPE_WARNING_MS;
+  // 直線移動：按目前速度推算，仍在畫面內但即將離開
+  const frames = ESCAPE_WARNING_MS / FRAME_MS;
+  const onScreen = (x: number, y: number) => x >= 0 && x <= width && y >= 0 && y <= height;
+  return onScreen(obj.x, obj.y) && !onScreen(obj.x + obj.speedX * frames, obj.y - obj.speedY * frames);
+}
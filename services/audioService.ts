@@ -1,4 +1,16 @@
 
+import { GameSettings } from '../types';
+
+export type AudioMixerSettings = Pick<GameSettings, 'masterVolume' | 'musicVolume' | 'sfxVolume' | 'masterMuted' | 'musicMuted' | 'sfxMuted'>;
+
+// 音樂淡入淡出與避讓 (ducking) 的時間 (秒)
+const MUSIC_FADE_SEC = 0.6;
+const DUCK_LEVEL = 0.25;
+const DUCK_RELEASE_SEC = 1.2;
+// 聲音提示的音高範圍：畫面底部至頂部 (Hz)
+const CUE_LOW_FREQ = 600;
+const CUE_HIGH_FREQ = 2400;
+
 class AudioService {
   private context: AudioContext | null = null;
   private isMusicPlaying: boolean = false;
@@ -7,6 +19,16 @@ class AudioService {
   private schedulerTimer: number | null = null;
   private tempo: number = 100; // 稍微放慢速度，更休閒
   private noiseBuffer: AudioBuffer | null = null;
+  private effectsMuted: boolean = false; // 重播快轉時暫時靜音音效
+  // 混音匯流排：音樂 → 淡入淡出 → 避讓 → 音樂音量 → 總音量；音效 → 音效音量 → 總音量
+  private masterBus: GainNode | null = null;
+  private musicBus: GainNode | null = null;
+  private musicFade: GainNode | null = null;
+  private musicDuck: GainNode | null = null;
+  private musicGain: GainNode | null = null;
+  private sfxBus: GainNode | null = null;
+  private stopTimer: number | null = null;
+  private mixer: AudioMixerSettings | null = null;
 
   // C Major Scale frequencies (C4 to C6)
   private scale: number[] = [
@@ -19,6 +41,7 @@ class AudioService {
     try {
       this.context = new (window.AudioContext || (window as any).webkitAudioContext)();
       this.createNoiseBuffer();
+      this.createBuses();
     } catch (e) {
       console.error('Web Audio API not supported', e);
     }
@@ -35,13 +58,65 @@ class AudioService {
     this.noiseBuffer = buffer;
   }
 
+  private createBuses() {
+    if (!this.context) return;
+    this.masterBus = this.context.createGain();
+    this.masterBus.connect(this.context.destination);
+    this.musicGain = this.context.createGain();
+    this.musicGain.connect(this.masterBus);
+    this.musicDuck = this.context.createGain();
+    this.musicDuck.connect(this.musicGain);
+    this.musicFade = this.context.createGain();
+    this.musicFade.gain.value = 0;
+    this.musicFade.connect(this.musicDuck);
+    this.musicBus = this.musicFade;
+    this.sfxBus = this.context.createGain();
+    this.sfxBus.connect(this.masterBus);
+    if (this.mixer) this.setMixer(this.mixer);
+  }
+
+  // 以短時間漸變套用音量，避免調整時出現爆音
+  setMixer(mixer: AudioMixerSettings) {
+    this.mixer = mixer;
+    if (!this.context || !this.masterBus || !this.musicGain || !this.sfxBus) return;
+    const t = this.context.currentTime;
+    this.masterBus.gain.setTargetAtTime(mixer.masterMuted ? 0 : mixer.masterVolume, t, 0.03);
+    this.musicGain.gain.setTargetAtTime(mixer.musicMuted ? 0 : mixer.musicVolume, t, 0.03);
+    this.sfxBus.gain.setTargetAtTime(mixer.sfxMuted ? 0 : mixer.sfxVolume, t, 0.03);
+  }
+
+  // 炸彈爆炸時暫時壓低音樂，讓音效更清楚
+  private duckMusic() {
+    if (!this.context || !this.musicDuck) return;
+    const t = this.context.currentTime;
+    const gain = this.musicDuck.gain;
+    gain.cancelScheduledValues(t);
+    gain.setValueAtTime(gain.value, t);
+    gain.linearRampToValueAtTime(DUCK_LEVEL, t + 0.05);
+    gain.linearRampToValueAtTime(1, t + 0.05 + DUCK_RELEASE_SEC);
+  }
+
+  private fadeMusic(target: number) {
+    if (!this.context || !this.musicFade) return;
+    const t = this.context.currentTime;
+    const gain = this.musicFade.gain;
+    gain.cancelScheduledValues(t);
+    gain.setValueAtTime(gain.value, t);
+    gain.linearRampToValueAtTime(target, t + MUSIC_FADE_SEC);
+  }
+
   private ensureContext() {
     if (this.context && this.context.state === 'suspended') {
       this.context.resume();
     }
   }
 
+  setEffectsMuted(muted: boolean) {
+    this.effectsMuted = muted;
+  }
+
   playBirdSound() {
+    if (this.effectsMuted) return;
     this.ensureContext();
     if (!this.context) return;
     const t = this.context.currentTime;
@@ -50,7 +125,49 @@ class AudioService {
     this.createChirp(t + 0.08, 2500, 1200, 0.1);
   }
 
-  private createChirp(startTime: number, startFreq: number, endFreq: number, vol: number) {
+  // 金色雀鳥與心心：上行琶音
+  playBonusSound() {
+    if (this.effectsMuted) return;
+    this.ensureContext();
+    if (!this.context) return;
+    const t = this.context.currentTime;
+    [this.scale[7], this.scale[9], this.scale[11], this.scale[14]].forEach((freq, i) => {
+      this.createChirp(t + i * 0.06, freq, freq * 1.01, 0.12);
+    });
+  }
+
+  // 聲音提示：pan 為左右聲像 (-1 至 1)，height 為高度 (0 至 1)，越高音調越高
+  playSpawnCue(pan: number, height: number) {
+    if (this.effectsMuted) return;
+    this.ensureContext();
+    if (!this.context) return;
+    const t = this.context.currentTime;
+    const freq = CUE_LOW_FREQ * Math.pow(CUE_HIGH_FREQ / CUE_LOW_FREQ, height);
+    const panner = this.createPanner(pan);
+    this.createChirp(t, freq, freq * 1.25, 0.12, panner);
+    this.createChirp(t + 0.09, freq * 1.25, freq * 1.5, 0.1, panner);
+  }
+
+  // 目標即將飛走：較輕柔的下行提示音
+  playEscapeWarning(pan: number, height: number) {
+    if (this.effectsMuted) return;
+    this.ensureContext();
+    if (!this.context) return;
+    const t = this.context.currentTime;
+    const freq = CUE_LOW_FREQ * Math.pow(CUE_HIGH_FREQ / CUE_LOW_FREQ, height);
+    const panner = this.createPanner(pan);
+    this.createChirp(t, freq, freq * 0.8, 0.05, panner);
+    this.createChirp(t + 0.15, freq * 0.8, freq * 0.6, 0.04, panner);
+  }
+
+  private createPanner(pan: number) {
+    const panner = this.context!.createStereoPanner();
+    panner.pan.value = Math.min(1, Math.max(-1, pan));
+    panner.connect(this.sfxBus!);
+    return panner;
+  }
+
+  private createChirp(startTime: number, startFreq: number, endFreq: number, vol: number, destination: AudioNode = this.sfxBus!) {
     if (!this.context) return;
     const oscillator = this.context.createOscillator();
     const gainNode = this.context.createGain();
@@ -61,12 +178,13 @@ class AudioService {
     gainNode.gain.linearRampToValueAtTime(vol, startTime + 0.01);
     gainNode.gain.exponentialRampToValueAtTime(0.001, startTime + 0.1);
     oscillator.connect(gainNode);
-    gainNode.connect(this.context.destination);
+    gainNode.connect(destination);
     oscillator.start(startTime);
     oscillator.stop(startTime + 0.1);
   }
 
   playBombSound() {
+    if (this.effectsMuted) return;
     this.ensureContext();
     if (!this.context || !this.noiseBuffer) return;
     const t = this.context.currentTime;
@@ -89,17 +207,24 @@ class AudioService {
     noiseGain.gain.exponentialRampToValueAtTime(0.01, t + 0.4);
     
     oscillator.connect(oscGain);
-    oscGain.connect(this.context.destination);
+    oscGain.connect(this.sfxBus!);
     noiseSource.connect(noiseFilter);
     noiseFilter.connect(noiseGain);
-    noiseGain.connect(this.context.destination);
+    noiseGain.connect(this.sfxBus!);
     
     oscillator.start(t); oscillator.stop(t + 0.4);
     noiseSource.start(t); noiseSource.stop(t + 0.4);
+    this.duckMusic();
   }
 
   startMusic() {
     this.ensureContext();
+    // 淡出途中再次開始：取消停止，直接淡入
+    if (this.stopTimer) {
+      window.clearTimeout(this.stopTimer);
+      this.stopTimer = null;
+    }
+    this.fadeMusic(1);
     if (this.isMusicPlaying) return;
     this.isMusicPlaying = true;
     this.beatIndex = 0;
@@ -109,12 +234,18 @@ class AudioService {
     }
   }
 
+  // 先淡出，完成後才停止排程
   stopMusic() {
-    this.isMusicPlaying = false;
-    if (this.schedulerTimer) {
-      window.clearTimeout(this.schedulerTimer);
-      this.schedulerTimer = null;
-    }
+    if (!this.isMusicPlaying || this.stopTimer) return;
+    this.fadeMusic(0);
+    this.stopTimer = window.setTimeout(() => {
+      this.stopTimer = null;
+      this.isMusicPlaying = false;
+      if (this.schedulerTimer) {
+        window.clearTimeout(this.schedulerTimer);
+        this.schedulerTimer = null;
+      }
+    }, MUSIC_FADE_SEC * 1000);
   }
 
   private scheduleNote() {
@@ -190,7 +321,7 @@ class AudioService {
     osc.frequency.exponentialRampToValueAtTime(30, time + 0.15);
     gain.gain.setValueAtTime(0.6, time);
     gain.gain.exponentialRampToValueAtTime(0.01, time + 0.15);
-    osc.connect(gain); gain.connect(this.context.destination);
+    osc.connect(gain); gain.connect(this.musicBus!);
     osc.start(time); osc.stop(time + 0.15);
   }
 
@@ -204,7 +335,7 @@ class AudioService {
     const gain = this.context.createGain();
     gain.gain.setValueAtTime(vol, time);
     gain.gain.exponentialRampToValueAtTime(0.01, time + 0.03);
-    source.connect(filter); filter.connect(gain); gain.connect(this.context.destination);
+    source.connect(filter); filter.connect(gain); gain.connect(this.musicBus!);
     source.start(time); source.stop(time + 0.03);
   }
 
@@ -216,7 +347,7 @@ class AudioService {
     osc.frequency.setValueAtTime(freq, time);
     gain.gain.setValueAtTime(0.3, time);
     gain.gain.linearRampToValueAtTime(0, time + duration);
-    osc.connect(gain); gain.connect(this.context.destination);
+    osc.connect(gain); gain.connect(this.musicBus!);
     osc.start(time); osc.stop(time + duration);
   }
 
@@ -233,7 +364,7 @@ class AudioService {
     gain.gain.linearRampToValueAtTime(0.2, time + 0.005);
     gain.gain.exponentialRampToValueAtTime(0.001, time + 0.3);
     
-    osc.connect(gain); gain.connect(this.context.destination);
+    osc.connect(gain); gain.connect(this.musicBus!);
     osc.start(time); osc.stop(time + 0.3);
   }
 }
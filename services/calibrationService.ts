@@ -0,0 +1,85 @@
+import { CalibrationResult, HandSide, ReachBounds } from '../types';
+import { HandSample } from './metricsService';
+
+// 每隻手的掃動時間
+export const CALIBRATION_PHASE_MS = 8000;
+export const CALIBRATION_SIDES: HandSide[] = ['Left', 'Right'];
+
+export function mergeBounds(a: ReachBounds | null, b: ReachBounds | null): ReachBounds | null {
+  if (!a) return b;
+  if (!b) return a;
+  return { minX: Math.min(a.minX, b.minX), maxX: Math.max(a.maxX, b.maxX), minY: Math.min(a.minY, b.minY), maxY: Math.max(a.maxY, b.maxY) };
+}
+
+// 以校準範圍中心按倍數放大，並限制在畫面之內
+export function getPlayArea(calibration: CalibrationResult | null | undefined, scale: number, width: number, height: number): ReachBounds | null {
+  const union = calibration ? mergeBounds(calibration.reach.Left, calibration.reach.Right) : null;
+  if (!union) return null;
+  const cx = (union.minX + union.maxX) / 2;
+  const cy = (union.minY + union.maxY) / 2;
+  const halfW = ((union.maxX - union.minX) / 2) * scale;
+  const halfH = ((union.maxY - union.minY) / 2) * scale;
+  return {
+    minX: Math.max(0, cx - halfW), maxX: Math.min(width, cx + halfW),
+    minY: Math.max(0, cy - halfH), maxY: Math.min(height, cy + halfH)
+  };
+}
+
+// 可達範圍佔畫面面積的比例 (0 to 1)
+export function getReachAreaRatio(calibration: CalibrationResult | null | undefined, width: number, height: number) {
+  const union = calibration ? mergeBounds(calibration.reach.Left, calibration.reach.Right) : null;
+  if (!union) return null;
+  return ((union.maxX - union.minX) * (union.maxY - union.minY)) / (width * height);
+}
+
+class CalibrationService {
+  private phaseIndex: number = -1;
+  private phaseStartedAt: number = 0;
+  private reach: Record<HandSide, ReachBounds | null> = { Left: null, Right: null };
+
+  start() {
+    this.phaseIndex = 0;
+    this.phaseStartedAt = performance.now();
+    this.reach = { Left: null, Right: null };
+  }
+
+  cancel() {
+    this.phaseIndex = -1;
+  }
+
+  isActive() {
+    return this.phaseIndex >= 0;
+  }
+
+  getCurrentSide(): HandSide | null {
+    return this.isActive() ? CALIBRATION_SIDES[this.phaseIndex] : null;
+  }
+
+  getRemainingMs() {
+    return Math.max(0, CALIBRATION_PHASE_MS - (performance.now() - this.phaseStartedAt));
+  }
+
+  getReach() {
+    return this.reach;
+  }
+
+  // 每幀呼叫；只記錄目前指定那一側的手。全部完成時回傳結果
+  update(hands: HandSample[]): CalibrationResult | null {
+    const side = this.getCurrentSide();
+    if (!side) return null;
+
+    hands.filter(h => h.side === side).forEach(h => {
+      this.reach[side] = mergeBounds(this.reach[side], { minX: h.x, maxX: h.x, minY: h.y, maxY: h.y });
+    });
+
+    if (this.getRemainingMs() > 0) return null;
+    this.phaseIndex++;
+    this.phaseStartedAt = performance.now();
+    if (this.phaseIndex < CALIBRATION_SIDES.length) return null;
+
+    this.phaseIndex = -1;
+    return { calibratedAt: Date.now(), reach: { ...this.reach } };
+  }
+}
+
+export const calibrationService = new CalibrationService();
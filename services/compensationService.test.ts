@@ -0,0 +1,61 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { PoseSample, compensationService } from './compensationService';
+
+// 坐直時兩肩相距 36 cm、在髖部上方 50 cm (y 向下)
+const pose = (leanDeg: number, hikeLeftM = 0, hipsVisible = true): PoseSample => {
+  const rad = leanDeg * Math.PI / 180;
+  const rotate = (x: number, y: number) => ({ x: x * Math.cos(rad) - y * Math.sin(rad), y: x * Math.sin(rad) + y * Math.cos(rad), z: 0 });
+  return {
+    shoulders: { Left: rotate(0.18, -0.5 - hikeLeftM), Right: rotate(-0.18, -0.5) },
+    hips: hipsVisible ? { Left: { x: 0.1, y: 0, z: 0 }, Right: { x: -0.1, y: 0, z: 0 } } : null,
+  };
+};
+
+const captureBaseline = (hipsVisible: boolean) => {
+  for (let i = 0; i < 15; i++) compensationService.update(pose(0, 0, hipsVisible));
+};
+
+describe('compensationService', () => {
+  beforeEach(() => compensationService.start({ trunkLeanMaxDeg: 10, shoulderHikeMaxCm: 3 }));
+
+  it('flags trunk lean and shoulder hiking against the trunk when the hips are visible', () => {
+    captureBaseline(true);
+    compensationService.update(pose(5));
+    expect(compensationService.isCompensating()).toBe(false);
+    compensationService.update(pose(15));
+    expect(compensationService.getState()?.trunkLeanDeg).toBeCloseTo(15, 0);
+    expect(compensationService.isCompensating()).toBe(true);
+    compensationService.update(pose(0, 0.05));
+    expect(compensationService.getState()?.shoulderHikeCm).toBeGreaterThan(3);
+    expect(compensationService.isCompensating()).toBe(true);
+  });
+
+  it('falls back to the shoulder-line tilt when the hips are out of frame', () => {
+    captureBaseline(false);
+    compensationService.update(pose(5, 0, false));
+    expect(compensationService.isCompensating()).toBe(false);
+    compensationService.update(pose(15, 0, false));
+    expect(compensationService.getState()?.trunkLeanDeg).toBeCloseTo(15, 0);
+    expect(compensationService.isCompensating()).toBe(true);
+    compensationService.update(pose(0, 0.08, false));
+    expect(compensationService.getState()?.shoulderHikeCm).toBeGreaterThan(3);
+  });
+
+  it('uses the shoulder line for frames whose hips drop out after a trunk baseline', () => {
+    captureBaseline(true);
+    compensationService.update(pose(0, 0, false));
+    expect(compensationService.getState()?.trunkLeanDeg).toBeCloseTo(0, 5);
+    expect(compensationService.isCompensating()).toBe(false);
+  });
+
+  it('waits for a fresh baseline after the baseline is reset', () => {
+    captureBaseline(true);
+    expect(compensationService.hasBaseline()).toBe(true);
+    compensationService.resetBaseline();
+    expect(compensationService.hasBaseline()).toBe(false);
+    // 病人回來後改以傾側的坐姿為基準，不再視為代償
+    for (let i = 0; i < 15; i++) compensationService.update(pose(15));
+    compensationService.update(pose(15));
+    expect(compensationService.isCompensating()).toBe(false);
+  });
+});
@@ -0,0 +1,171 @@
+import { GameSettings, HandSide } from '../types';
+
+// 代償動作偵測：以姿勢追蹤的肩膀與軀幹位置，找出以傾側軀幹或聳肩完成的伸手動作
+// 以坐姿提示期間記錄的坐姿作為基準，之後與基準比較；看不到髖部時改以肩膀連線的傾斜判斷
+
+export type CompensationPlan = Pick<GameSettings, 'trunkLeanMaxDeg' | 'shoulderHikeMaxCm'>;
+
+export interface Point3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+// 姿勢追蹤的世界座標 (米，以兩髖中點為原點，y 向下)，只保留用到的關節
+export interface PoseSample {
+  shoulders: Record<HandSide, Point3>;
+  hips: Record<HandSide, Point3> | null; // 髖部不在畫面內時為 null
+}
+
+export interface CompensationState {
+  trunkLeanDeg: number; // 軀幹相對基準的傾角
+  shoulderHikeCm: number; // 較高一邊肩膀相對基準沿軀幹方向的提升
+  compensating: boolean;
+}
+
+interface TrunkMeasure {
+  trunk: Point3; // 兩髖中點指向兩肩中點
+  shoulderHeight: Record<HandSide, number>; // 肩膀沿軀幹方向的高度 (米)
+}
+
+interface Measure {
+  shoulderLine: Point3; // 左肩指向右肩，只取正面 (x, y) 方向
+  shoulderRise: Record<HandSide, number>; // 肩膀相對兩肩中點的高度 (米)
+  trunk: TrunkMeasure | null; // 看不到髖部時為 null
+}
+
+type Baseline = Measure;
+
+// 以坐姿提示期間若干個姿勢樣本的平均作為基準
+const BASELINE_SAMPLES = 15;
+
+const SIDES: HandSide[] = ['Left', 'Right'];
+
+const midpoint = (a: Point3, b: Point3): Point3 => ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2, z: (a.z + b.z) / 2 });
+const subtract = (a: Point3, b: Point3): Point3 => ({ x: a.x - b.x, y: a.y - b.y, z: a.z - b.z });
+const dot = (a: Point3, b: Point3) => a.x * b.x + a.y * b.y + a.z * b.z;
+const length = (a: Point3) => Math.sqrt(dot(a, a));
+const average = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+const averagePoint = (points: Point3[]): Point3 => ({
+  x: average(points.map(p => p.x)),
+  y: average(points.map(p => p.y)),
+  z: average(points.map(p => p.z)),
+});
+const averageSides = (values: Record<HandSide, number>[]): Record<HandSide, number> => ({
+  Left: average(values.map(v => v.Left)),
+  Right: average(values.map(v => v.Right)),
+});
+
+const angleDeg = (a: Point3, b: Point3) => {
+  const cosine = dot(a, b) / Math.max(1e-6, length(a) * length(b));
+  return Math.acos(Math.min(1, Math.max(-1, cosine))) * 180 / Math.PI;
+};
+
+function measureTrunk(shoulders: Record<HandSide, Point3>, hips: Record<HandSide, Point3>): TrunkMeasure {
+  const hipMid = midpoint(hips.Left, hips.Right);
+  const trunk = subtract(midpoint(shoulders.Left, shoulders.Right), hipMid);
+  const trunkLength = Math.max(1e-6, length(trunk));
+  const axis = { x: trunk.x / trunkLength, y: trunk.y / trunkLength, z: trunk.z / trunkLength };
+  // 沿軀幹方向量度，側傾時整個軀幹一同轉動，不會誤當聳肩
+  const shoulderHeight = {
+    Left: dot(subtract(shoulders.Left, hipMid), axis),
+    Right: dot(subtract(shoulders.Right, hipMid), axis),
+  };
+  return { trunk, shoulderHeight };
+}
+
+function measure(sample: PoseSample): Measure {
+  const { Left, Right } = sample.shoulders;
+  const shoulderMid = midpoint(Left, Right);
+  return {
+    shoulderLine: { x: Right.x - Left.x, y: Right.y - Left.y, z: 0 },
+    // y 軸向下，取負值使向上為正
+    shoulderRise: { Left: shoulderMid.y - Left.y, Right: shoulderMid.y - Right.y },
+    trunk: sample.hips ? measureTrunk(sample.shoulders, sample.hips) : null,
+  };
+}
+
+class CompensationService {
+  private plan: CompensationPlan | null = null;
+  private samples: PoseSample[] = [];
+  private baseline: Baseline | null = null;
+  private state: CompensationState | null = null;
+
+  // plan 為 null 時關閉代償偵測
+  start(plan: CompensationPlan | null) {
+    this.plan = plan;
+    this.resetBaseline();
+  }
+
+  // 病人離開後回來坐姿可能已改變，須重新記錄基準
+  resetBaseline() {
+    this.samples = [];
+    this.baseline = null;
+    this.state = null;
+  }
+
+  isEnabled() {
+    return this.plan !== null;
+  }
+
+  hasBaseline() {
+    return this.baseline !== null;
+  }
+
+  // 每個新的姿勢結果呼叫一次；null 代表本次偵測不到人
+  update(sample: PoseSample | null) {
+    if (!this.plan) return;
+    if (!sample) {
+      this.state = null;
+      return;
+    }
+    if (!this.baseline) {
+      this.samples.push(sample);
+      if (this.samples.length >= BASELINE_SAMPLES) this.baseline = this.buildBaseline();
+      return;
+    }
+
+    const measured = measure(sample);
+    const baseline = this.baseline;
+    let trunkLeanDeg: number;
+    let shoulderHikeCm: number;
+    if (measured.trunk && baseline.trunk) {
+      const trunk = measured.trunk;
+      trunkLeanDeg = angleDeg(trunk.trunk, baseline.trunk.trunk);
+      shoulderHikeCm = Math.max(...SIDES.map(side => trunk.shoulderHeight[side] - baseline.trunk!.shoulderHeight[side])) * 100;
+    } else {
+      // 側傾時兩肩連線隨軀幹轉動，以連線傾斜的變化代替軀幹角度
+      trunkLeanDeg = angleDeg(measured.shoulderLine, baseline.shoulderLine);
+      shoulderHikeCm = Math.max(...SIDES.map(side => measured.shoulderRise[side] - baseline.shoulderRise[side])) * 100;
+    }
+    this.state = {
+      trunkLeanDeg,
+      shoulderHikeCm,
+      compensating: trunkLeanDeg > this.plan.trunkLeanMaxDeg || shoulderHikeCm > this.plan.shoulderHikeMaxCm
+    };
+  }
+
+  getState() {
+    return this.state;
+  }
+
+  isCompensating() {
+    return this.state?.compensating ?? false;
+  }
+
+  private buildBaseline(): Baseline {
+    const measured = this.samples.map(measure);
+    // 只以看得到髖部的樣本建立軀幹基準；全部都看不到時只用肩膀連線判斷
+    const trunks = measured.flatMap(m => m.trunk ?? []);
+    return {
+      shoulderLine: averagePoint(measured.map(m => m.shoulderLine)),
+      shoulderRise: averageSides(measured.map(m => m.shoulderRise)),
+      trunk: trunks.length > 0 ? {
+        trunk: averagePoint(trunks.map(m => m.trunk)),
+        shoulderHeight: averageSides(trunks.map(m => m.shoulderHeight)),
+      } : null,
+    };
+  }
+}
+
+export const compensationService = new CompensationService();
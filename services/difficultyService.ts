@@ -0,0 +1,90 @@
+import { DifficultySample, GameSettings } from '../types';
+
+// 以最近若干隻雀鳥的捕捉結果估計成功率
+export const ADAPTIVE_WINDOW = 10;
+const ADAPTIVE_MIN_SAMPLES = 4;
+// 每次結果對難度的調整幅度 (成功率偏差 x 增益)
+const ADAPTIVE_GAIN = 0.2;
+// 難度倍數對伸展範圍的影響比例
+const REACH_GAIN = 0.5;
+const MIN_SPAWN_INTERVAL = 15;
+const SAMPLE_INTERVAL_MS = 2000;
+
+export type DifficultyPlan = Pick<GameSettings, 'targetSuccessRate' | 'difficultyMin' | 'difficultyMax'>;
+export type DifficultyBase = Pick<GameSettings, 'speedFactor' | 'spawnFreq' | 'reachScale'>;
+
+export interface DifficultyParams {
+  level: number;
+  speedFactor: number;
+  spawnInterval: number; // 每隔多少幀出一隻
+  reachScale: number;
+}
+
+class DifficultyService {
+  private plan: DifficultyPlan | null = null;
+  private level: number = 1;
+  private outcomes: boolean[] = [];
+  private curve: DifficultySample[] = [];
+  private lastSampleAt: number | null = null;
+
+  // plan 為 null 時使用按得分遞增的難度
+  start(plan: DifficultyPlan | null) {
+    this.plan = plan;
+    this.level = plan ? Math.min(plan.difficultyMax, Math.max(plan.difficultyMin, 1)) : 1;
+    this.outcomes = [];
+    this.curve = [];
+    this.lastSampleAt = null;
+  }
+
+  isAdaptive() {
+    return this.plan !== null;
+  }
+
+  getSuccessRate() {
+    if (this.outcomes.length < ADAPTIVE_MIN_SAMPLES) return null;
+    return this.outcomes.filter(Boolean).length / this.outcomes.length;
+  }
+
+  // 每隻雀鳥被捕捉或飛走時呼叫
+  recordOutcome(caught: boolean) {
+    this.outcomes.push(caught);
+    if (this.outcomes.length > ADAPTIVE_WINDOW) this.outcomes.shift();
+    const rate = this.getSuccessRate();
+    if (!this.plan || rate === null) return;
+    const next = this.level + (rate - this.plan.targetSuccessRate) * ADAPTIVE_GAIN;
+    this.level = Math.min(this.plan.difficultyMax, Math.max(this.plan.difficultyMin, next));
+  }
+
+  getParams(base: DifficultyBase, score: number): DifficultyParams {
+    if (!this.plan) {
+      return {
+        level: 1 + score / 1500,
+        speedFactor: base.speedFactor * (1 + score / 1500),
+        spawnInterval: Math.max(MIN_SPAWN_INTERVAL, Math.floor((80 / base.spawnFreq) - (score / 50))),
+        reachScale: base.reachScale
+      };
+    }
+    return {
+      level: this.level,
+      speedFactor: base.speedFactor * this.level,
+      spawnInterval: Math.max(MIN_SPAWN_INTERVAL, Math.floor(80 / (base.spawnFreq * this.level))),
+      reachScale: base.reachScale * (1 + (this.level - 1) * REACH_GAIN)
+    };
+  }
+
+  // 定期記錄難度曲線，隨訓練紀錄保存；未校準時伸展範圍沒有作用，不記錄其倍數
+  sample(now: number, params: DifficultyParams, reachApplied: boolean) {
+    if (this.lastSampleAt !== null && now - this.lastSampleAt < SAMPLE_INTERVAL_MS) return;
+    this.lastSampleAt = now;
+    this.curve.push({
+      t: now, level: params.level, speedFactor: params.speedFactor, spawnInterval: params.spawnInterval,
+      reachScale: reachApplied ? params.reachScale : null, successRate: this.plan ? this.getSuccessRate() : null
+    });
+  }
+
+  getCurve() {
+    return this.curve.map(s => ({ ...s }));
+  }
+}
+
+export const difficultyService = new DifficultyService();
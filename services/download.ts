@@ -0,0 +1,15 @@
+// 部分瀏覽器 (Safari、Firefox) 在 click 後才非同步開始下載，立即釋放網址會令下載失敗
+const REVOKE_DELAY_MS = 10000;
+
+// 於瀏覽器內產生檔案並觸發下載，不經伺服器
+export function downloadFile(filename: string, content: string, type: string) {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+}
+
+export const fileTimestamp = (epochMs: number) => new Date(epochMs).toISOString().replace(/[:.]/g, '-');
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { createFlightPath, followFlightPath, startFlightPath } from './flightPaths';
+import { SpawnContext } from './objectRegistry';
+import { createRandom } from './random';
+import { FlightPath, GameObject, GameObjectType } from '../types';
+
+const WIDTH = 1280;
+const HEIGHT = 720;
+
+const bird = (): GameObject => ({
+  id: 'a', type: GameObjectType.BIRD, x: 0, y: 0, radius: 40, speedX: 0, speedY: 0, color: '', caught: false, emoji: '', flapPhase: 0, spawnedAt: 0
+});
+
+describe('side-to-side flight paths', () => {
+  const playArea = { minX: 400, maxX: 900, minY: 150, maxY: 450 };
+  const ctx = (area: SpawnContext['playArea']): SpawnContext => ({
+    random: createRandom(3), radius: 40, speed: 1, playArea: area, trainedSide: null, sideBias: 0.5, width: WIDTH, height: HEIGHT
+  });
+
+  it.each([FlightPath.SINE, FlightPath.ARC] as const)('%s sweeps only across the calibrated play area', type => {
+    for (let i = 0; i < 20; i++) {
+      const obj = bird();
+      const path = createFlightPath(type, ctx(playArea));
+      startFlightPath(obj, path);
+      const xs = [obj.x];
+      for (let t = 0; t <= path.durationMs; t += 50) {
+        followFlightPath(obj, t);
+        xs.push(obj.x);
+      }
+      expect(Math.min(...xs)).toBeCloseTo(playArea.minX, 6);
+      expect(Math.max(...xs)).toBeCloseTo(playArea.maxX, 6);
+    }
+  });
+
+  it.each([FlightPath.SINE, FlightPath.ARC] as const)('%s crosses the whole screen without calibration', type => {
+    const path = createFlightPath(type, ctx(null));
+    expect([path.from.x, path.to.x].sort((a, b) => a - b)).toEqual([-40, WIDTH + 40]);
+  });
+});
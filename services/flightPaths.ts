@@ -0,0 +1,132 @@
+import { FlightPath, FlightPathState, GameObject, Point, ReachBounds } from '../types';
+import { SpawnContext } from './objectRegistry';
+
+// 預設飛行路線，引導特定的上肢動作。路線以畫面或校準範圍為基準，按難度調整所需時間
+
+// 速度倍數 1 時完成路線所需時間
+const PATH_DURATION_MS: Record<Exclude<FlightPath, FlightPath.STRAIGHT>, number> = {
+  [FlightPath.SINE]: 7000,
+  [FlightPath.ARC]: 6000,
+  [FlightPath.FIGURE_EIGHT]: 8000,
+  [FlightPath.MIDLINE_DIAGONAL]: 6000,
+  [FlightPath.HOVER_DART]: 5000,
+  [FlightPath.VERTICAL_RISE]: 9000,
+};
+
+// 上升路線到達頂點後停留的比例，讓病人有時間伸到最高點
+const RISE_HOLD_FRACTION = 0.15;
+// 停頓急衝：停頓部分所佔比例
+const HOVER_FRACTION = 0.5;
+
+const lerp = (a: number, b: number, u: number) => a + (b - a) * u;
+const between = (ctx: SpawnContext, min: number, max: number) => min + ctx.random() * Math.max(0, max - min);
+
+function getArea(ctx: SpawnContext): ReachBounds {
+  const margin = ctx.radius;
+  const area = ctx.playArea ?? { minX: 0, maxX: ctx.width, minY: 0, maxY: ctx.height * 0.8 };
+  return {
+    minX: Math.max(margin, area.minX), maxX: Math.min(ctx.width - margin, area.maxX),
+    minY: Math.max(margin, area.minY), maxY: Math.min(ctx.height - margin, area.maxY)
+  };
+}
+
+// 選擇起點所在的一側：有訓練側時按 sideBias 的機率由該側開始，與其他出生方式一致
+const pickStartLeft = (ctx: SpawnContext) => ctx.trainedSide
+  ? (ctx.random() < ctx.sideBias) === (ctx.trainedSide === 'Left')
+  : ctx.random() < 0.5;
+
+export function createFlightPath(type: Exclude<FlightPath, FlightPath.STRAIGHT>, ctx: SpawnContext): FlightPathState {
+  const area = getArea(ctx);
+  const areaW = area.maxX - area.minX;
+  const areaH = area.maxY - area.minY;
+  const durationMs = PATH_DURATION_MS[type] / Math.max(0.2, ctx.speed);
+  const leftStart = pickStartLeft(ctx);
+  const offLeft = -ctx.radius;
+  const offRight = ctx.width + ctx.radius;
+  // 橫越整個畫面的路線：校準後只在可達範圍的左右界之間來回
+  const sweepLeft = ctx.playArea ? area.minX : offLeft;
+  const sweepRight = ctx.playArea ? area.maxX : offRight;
+
+  switch (type) {
+    case FlightPath.SINE: {
+      const amp = Math.min(areaH * 0.25, 120);
+      const y = between(ctx, area.minY + amp, area.maxY - amp);
+      return { type, durationMs, from: { x: leftStart ? sweepLeft : sweepRight, y }, to: { x: leftStart ? sweepRight : sweepLeft, y }, amplitude: { x: 0, y: amp } };
+    }
+    case FlightPath.ARC:
+      return {
+        type, durationMs,
+        from: { x: leftStart ? sweepLeft : sweepRight, y: area.maxY }, to: { x: leftStart ? sweepRight : sweepLeft, y: area.maxY },
+        amplitude: { x: 0, y: areaH }
+      };
+    case FlightPath.FIGURE_EIGHT: {
+      const center = { x: between(ctx, area.minX + areaW * 0.35, area.maxX - areaW * 0.35), y: between(ctx, area.minY + areaH * 0.35, area.maxY - areaH * 0.35) };
+      return { type, durationMs, from: center, to: center, amplitude: { x: areaW * 0.3, y: areaH * 0.3 } };
+    }
+    case FlightPath.MIDLINE_DIAGONAL: {
+      // 由一側下方斜向飛往另一側上方，越過身體中線
+      const from = { x: leftStart ? area.minX : area.maxX, y: area.maxY };
+      const to = { x: leftStart ? area.maxX : area.minX, y: area.minY };
+      const ext = 0.15;
+      return {
+        type, durationMs,
+        from: { x: lerp(to.x, from.x, 1 + ext), y: lerp(to.y, from.y, 1 + ext) },
+        to: { x: lerp(from.x, to.x, 1 + ext), y: lerp(from.y, to.y, 1 + ext) },
+        amplitude: { x: 0, y: 0 }
+      };
+    }
+    case FlightPath.HOVER_DART: {
+      const from = { x: between(ctx, area.minX, area.maxX), y: between(ctx, area.minY, area.maxY) };
+      const toLeft = from.x > ctx.width / 2;
+      return { type, durationMs, from, to: { x: toLeft ? offLeft : offRight, y: between(ctx, area.minY, area.maxY) }, amplitude: { x: 20, y: 14 } };
+    }
+    case FlightPath.VERTICAL_RISE: {
+      // 肩屈曲：由底部垂直慢升至可達範圍頂部
+      const x = leftStart ? between(ctx, area.minX, area.minX + areaW / 2) : between(ctx, area.minX + areaW / 2, area.maxX);
+      return { type, durationMs, from: { x, y: ctx.height + ctx.radius }, to: { x, y: area.minY }, amplitude: { x: 0, y: 0 } };
+    }
+  }
+}
+
+function positionAt(path: FlightPathState, u: number): Point {
+  const { from, to, amplitude } = path;
+  switch (path.type) {
+    case FlightPath.SINE:
+      return { x: lerp(from.x, to.x, u), y: lerp(from.y, to.y, u) + amplitude.y * Math.sin(u * Math.PI * 4) };
+    case FlightPath.ARC:
+      return { x: lerp(from.x, to.x, u), y: lerp(from.y, to.y, u) - amplitude.y * Math.sin(u * Math.PI) };
+    case FlightPath.FIGURE_EIGHT:
+      return { x: from.x + amplitude.x * Math.sin(u * Math.PI * 4), y: from.y + amplitude.y * Math.sin(u * Math.PI * 8) / 2 };
+    case FlightPath.HOVER_DART: {
+      if (u < HOVER_FRACTION) {
+        return { x: from.x + amplitude.x * Math.sin(u * Math.PI * 10), y: from.y + amplitude.y * Math.sin(u * Math.PI * 14) };
+      }
+      const k = Math.pow((u - HOVER_FRACTION) / (1 - HOVER_FRACTION), 2);
+      return { x: lerp(from.x, to.x, k), y: lerp(from.y, to.y, k) };
+    }
+    case FlightPath.VERTICAL_RISE: {
+      const k = Math.min(1, u / (1 - RISE_HOLD_FRACTION));
+      return { x: from.x, y: lerp(from.y, to.y, k) };
+    }
+    default:
+      return { x: lerp(from.x, to.x, u), y: lerp(from.y, to.y, u) };
+  }
+}
+
+export function startFlightPath(obj: GameObject, path: FlightPathState) {
+  obj.path = path;
+  const start = positionAt(path, 0);
+  obj.x = start.x; obj.y = start.y;
+}
+
+// 按遊戲時鐘更新位置；回傳路線是否已完成
+export function followFlightPath(obj: GameObject, now: number): boolean {
+  if (!obj.path) return false;
+  const u = Math.min(1, (now - obj.spawnedAt) / obj.path.durationMs);
+  const next = positionAt(obj.path, u);
+  // 保留速度方向，供繪製時決定雀鳥朝向
+  obj.speedX = next.x - obj.x;
+  obj.speedY = obj.y - next.y;
+  obj.x = next.x; obj.y = next.y;
+  return u >= 1;
+}
@@ -0,0 +1,12 @@
+import { i18n, t } from './i18n';
+
+// 訓練結果的共用格式：結果畫面、紀錄列表與報告必須顯示一致；沒有數據時顯示「—」
+
+export const formatPercent = (value: number | null) => value === null ? '—' : i18n.formatPercent(value);
+
+export const formatSeconds = (ms: number | null) => ms === null ? '—' : t('unit.secondsValue', { value: i18n.formatNumber(ms / 1000, 2) });
+
+// 正數代表左邊較慢；舊紀錄沒有此欄位
+export const formatAsymmetry = (ms: number | null | undefined) => ms === null || ms === undefined
+  ? '—'
+  : t(ms > 0 ? 'metric.asymmetryLeft' : 'metric.asymmetryRight', { value: formatSeconds(Math.abs(ms)) });
@@ -0,0 +1,338 @@
+import { CANVAS_HEIGHT, CANVAS_WIDTH, OBJECT_RADIUS } from '../constants';
+import { CalibrationResult, CompensationAction, EscapeCue, FlightPath, GameObject, GameSettings, HandSide, HandRule, MissPenalty, TrackedHand } from '../types';
+import { STABILITY_THRESHOLD } from './handTracker';
+import { RandomFn, cosmeticRandom, createRandom } from './random';
+import { metricsService } from './metricsService';
+import { SetTransition, setService } from './setService';
+import { difficultyService } from './difficultyService';
+import { OBJECT_TYPES, hasLeftScreen, pickObjectType } from './objectRegistry';
+import { createFlightPath, followFlightPath, startFlightPath } from './flightPaths';
+import { heightForY, isAboutToEscape, panForX } from './audioCues';
+import { fieldSide, neglectService } from './neglectService';
+import { compensationService } from './compensationService';
+import { getPlayArea } from './calibrationService';
+import { audioService } from './audioService';
+import { BILATERAL_RADIUS_SCALE, BILATERAL_WINDOW_MS, TRAINED_SIDE_BIAS, getTrainedSide, isHandAllowed, otherSide } from './handRules';
+import { MessageKey, t } from './i18n';
+
+// 遊戲邏輯：出鳥、移動、捕捉與飛走的每幀更新。不依賴 React 或畫布，
+// 遊戲迴圈與錄影重播共用同一份邏輯；粒子、浮動文字等視覺效果經 GameEffects 交由畫面處理
+
+export interface GameEffects {
+  explosion(x: number, y: number, color: string): void;
+  floatingText(x: number, y: number, text: string, color: string): void;
+  shake(): void;
+}
+
+export interface GameScore {
+  score: number;
+  lives: number;
+  caught: number;
+  missed: number;
+}
+
+// 'over' 代表本幀結束訓練 (生命用完或最後一組完成)
+export type GameOutcome = Exclude<SetTransition, 'done'> | 'over';
+
+const SIDE_LABELS: Record<HandSide, MessageKey> = { Left: 'side.left', Right: 'side.right' };
+const WRONG_HAND_FEEDBACK_MS = 1000;
+// 飛走提示與畫面邊緣的距離，避免被裁掉
+const ESCAPE_CUE_INSET = 40;
+// 握拳捕捉：合上手之後的有效時間，避免握拳掃過畫面也算捕捉
+const GRASP_WINDOW_MS = 500;
+// 代償動作提示用的柔和顏色
+const COMPENSATION_COLOR = "#FFE0B2";
+
+const NO_EFFECTS: GameEffects = { explosion() {}, floatingText() {}, shake() {} };
+
+export const isHandClosed = (openness: number, graspClosure: number) => openness <= 1 - graspClosure;
+
+// 只有穩定偵測中的手才計入軌跡與校準
+export const isConfidentHand = (hand: TrackedHand) => hand.framesMissing === 0 && hand.framesDetected >= STABILITY_THRESHOLD;
+
+class GameService {
+  private settings: GameSettings | null = null;
+  private calibration: CalibrationResult | null = null;
+  private effects: GameEffects = NO_EFFECTS;
+  private random: RandomFn = Math.random;
+  private objects: GameObject[] = [];
+  private escapeCues: EscapeCue[] = [];
+  private score: GameScore = { score: 0, lives: 0, caught: 0, missed: 0 };
+  private lastCatchSide: HandSide | null = null;
+  private frameCount: number = 0;
+  private paused: boolean = false;
+  private over: boolean = true;
+
+  // 開始一節訓練；重播時以錄製的種子及設定重新開始即可重現
+  start(seed: number, settings: GameSettings, calibration: CalibrationResult | null, effects: GameEffects = NO_EFFECTS) {
+    this.settings = settings;
+    this.calibration = calibration;
+    this.effects = effects;
+    this.random = createRandom(seed);
+    this.objects = [];
+    this.escapeCues = [];
+    this.score = { score: 0, lives: settings.initialLives, caught: 0, missed: 0 };
+    this.lastCatchSide = null;
+    this.frameCount = 0;
+    this.paused = false;
+    this.over = false;
+    const { setsEnabled, setCount, setGoal, setDurationSec, setTargetCatches, restSec, adaptiveDifficulty, targetSuccessRate, difficultyMin, difficultyMax, neglectMode, neglectedSide, neglectSpawnBias, poseTracking, trunkLeanMaxDeg, shoulderHikeMaxCm } = settings;
+    metricsService.startSession();
+    setService.start(setsEnabled ? { setCount, setGoal, setDurationSec, setTargetCatches, restSec } : null);
+    if (setsEnabled) metricsService.startSet();
+    difficultyService.start(adaptiveDifficulty ? { targetSuccessRate, difficultyMin, difficultyMax } : null);
+    neglectService.start(neglectMode ? { neglectedSide, neglectSpawnBias } : null);
+    compensationService.start(poseTracking ? { trunkLeanMaxDeg, shoulderHikeMaxCm } : null);
+  }
+
+  // 每幀開始：同步遊戲時鐘與暫停狀態 (暫停於幀的邊界生效，重播時才能完全重現)
+  beginFrame(now: number, paused: boolean, autoPaused: boolean) {
+    metricsService.tick(now);
+    if (paused !== metricsService.isPaused()) {
+      if (paused) metricsService.pause();
+      else metricsService.resume();
+    }
+    metricsService.setAutoPaused(autoPaused);
+    this.paused = paused;
+  }
+
+  getObjects() {
+    return this.objects;
+  }
+
+  getEscapeCues() {
+    return this.escapeCues;
+  }
+
+  getScore(): GameScore {
+    return { ...this.score };
+  }
+
+  isOver() {
+    return this.over;
+  }
+
+  // 每幀更新一次；暫停或已結束時不做任何事
+  update(hands: TrackedHand[]): GameOutcome | null {
+    const settings = this.settings;
+    if (!settings || this.over || this.paused) return null;
+    const { speedFactor, spawnFreq, reachScale, handRule, affectedSide, graspMode, graspClosure, enabledObjects, flightPaths, audioCues, escapeWarningCue, compensationAction } = settings;
+    this.frameCount++;
+
+    // 記錄穩定偵測中的手部軌跡，供臨床摘要使用
+    metricsService.recordHands(hands.filter(isConfidentHand));
+
+    const difficulty = difficultyService.getParams({ speedFactor, spawnFreq, reachScale }, this.score.score);
+    const playArea = getPlayArea(this.calibration, difficulty.reachScale, CANVAS_WIDTH, CANVAS_HEIGHT);
+    difficultyService.sample(metricsService.now(), difficulty, playArea !== null);
+    const spawnRate = difficulty.spawnInterval;
+    // 組間休息時不出鳥，背景與特效照常更新
+    const resting = setService.getPhase() === 'rest';
+
+    if (!resting && this.frameCount % spawnRate === 0) {
+      // 影響玩法的亂數一律使用種子亂數，確保可重現。
+      // 每次出鳥由主序列抽一個子種子，分支多抽的亂數不會影響之後的出鳥
+      const random = createRandom(Math.floor(this.random() * 4294967296));
+      // 分組訓練不計生命，不會出現補血的物件
+      const enabled = enabledObjects.filter(type => !(setService.isEnabled() && OBJECT_TYPES[type].lifeEffect > 0));
+      const type = pickObjectType(random, enabled);
+      const def = OBJECT_TYPES[type];
+      const twoHanded = def.role === 'target' && !def.holdMs && handRule === HandRule.BILATERAL;
+      const radius = OBJECT_RADIUS * def.radiusScale * (twoHanded ? BILATERAL_RADIUS_SCALE : 1);
+      // 半側忽略訓練時改為偏向被忽略的一側
+      const trainedSide = neglectService.getSide() ?? getTrainedSide(handRule, affectedSide, this.lastCatchSide);
+      const sideBias = neglectService.isEnabled() ? neglectService.getSpawnBias() : TRAINED_SIDE_BIAS;
+      const spawnContext = {
+        random, radius, speed: difficulty.speedFactor * def.speedScale, playArea, trainedSide, sideBias, width: CANVAS_WIDTH, height: CANVAS_HEIGHT
+      };
+      const motion = def.spawn(spawnContext);
+      const path = def.followsFlightPaths && flightPaths.length > 0 ? flightPaths[Math.floor(random() * flightPaths.length)] : FlightPath.STRAIGHT;
+
+      const obj: GameObject = {
+        id: Math.random().toString(36), type, ...motion, radius, color: '', caught: false,
+        emoji: def.emojis[Math.floor(cosmeticRandom() * def.emojis.length)],
+        flapPhase: cosmeticRandom() * Math.PI * 2, spawnedAt: metricsService.now(), twoHanded
+      };
+      if (path !== FlightPath.STRAIGHT) startFlightPath(obj, createFlightPath(path, spawnContext));
+      // 記下目標出現的一側，左右反應時間按此計算 (目標之後可能飛過中線)
+      if (def.role === 'target') obj.field = fieldSide(obj.x, CANVAS_WIDTH);
+      // 被忽略側的目標放慢，提示減弱後回復正常速度
+      if (neglectService.isEnabled() && def.role === 'target') {
+        if (obj.field === neglectService.getSide()) {
+          const scale = neglectService.getSpeedScale();
+          obj.speedX *= scale; obj.speedY *= scale;
+          if (obj.path) obj.path.durationMs /= scale;
+        }
+      }
+      this.objects.push(obj);
+      metricsService.logSpawn(obj);
+      if (audioCues && def.role === 'target') audioService.playSpawnCue(panForX(obj.x, CANVAS_WIDTH), heightForY(obj.y, CANVAS_HEIGHT));
+    }
+
+    // 更新每隻手的握拳狀態，記下合上手的時間
+    const frameNow = metricsService.now();
+    hands.forEach(hand => {
+      const closed = isHandClosed(hand.openness, graspClosure);
+      if (closed && !hand.closed) hand.closedAt = frameNow;
+      hand.closed = closed;
+    });
+
+    this.objects.forEach(obj => {
+      const def = OBJECT_TYPES[obj.type];
+      if (obj.path) followFlightPath(obj, frameNow);
+      else if (def.move) def.move(obj, frameNow);
+      else { obj.y -= obj.speedY; obj.x += obj.speedX; }
+      if (obj.caught || resting) return;
+
+      if (audioCues && escapeWarningCue && def.role === 'target' && !obj.escapeWarned && isAboutToEscape(obj, def, frameNow, CANVAS_WIDTH, CANVAS_HEIGHT)) {
+        obj.escapeWarned = true;
+        audioService.playEscapeWarning(panForX(obj.x, CANVAS_WIDTH), heightForY(obj.y, CANVAS_HEIGHT));
+      }
+
+      let coveringHand: TrackedHand | null = null;
+      for (const hand of hands) {
+          if (hand.framesDetected < STABILITY_THRESHOLD) continue;
+
+          const dx = hand.x - obj.x; const dy = hand.y - obj.y;
+          if (Math.sqrt(dx * dx + dy * dy) < obj.radius + 60) {
+              if (def.role === 'hazard') {
+                  obj.caught = true;
+                  metricsService.logBombHit(obj, hand);
+                  // 分組訓練不計生命，炸彈只作記錄與提示
+                  if (!setService.isEnabled()) this.score.lives += def.lifeEffect;
+                  def.playSound();
+                  this.effects.explosion(obj.x, obj.y, '#FF5252'); this.effects.shake();
+                  break;
+              }
+
+              // 握拳模式：手必須在雀鳥上合上才算捕捉 (停留目標只需覆蓋)
+              if (graspMode && !def.holdMs && !(hand.closed && frameNow - hand.closedAt <= GRASP_WINDOW_MS)) continue;
+
+              if (!isHandAllowed(handRule, affectedSide, this.lastCatchSide, hand.side)) {
+                  // 用錯手：只給中性提示，不算捕捉
+                  if (obj.lastWrongTouchAt === undefined || frameNow - obj.lastWrongTouchAt > WRONG_HAND_FEEDBACK_MS) {
+                      obj.lastWrongTouchAt = frameNow;
+                      metricsService.logWrongHand(obj, hand);
+                      this.effects.floatingText(obj.x, obj.y, t('game.useHand', { hand: t(SIDE_LABELS[otherSide(hand.side)]) }), "#ECEFF1");
+                  }
+                  continue;
+              }
+
+              if (compensationAction === CompensationAction.REJECT && compensationService.isCompensating()) {
+                  // 代償動作：不算捕捉，每個目標只提示及記錄一次
+                  if (!obj.compensationFlagged) {
+                      obj.compensationFlagged = true;
+                      metricsService.logCompensation(obj, hand);
+                      this.effects.floatingText(obj.x, obj.y, t('game.sitUpright'), COMPENSATION_COLOR);
+                  }
+                  continue;
+              }
+
+              if (def.holdMs) {
+                  coveringHand = hand;
+                  break;
+              }
+
+              if (obj.twoHanded) {
+                  obj.touches = { ...obj.touches, [hand.side]: frameNow };
+                  const otherTouch = obj.touches[otherSide(hand.side)];
+                  if (otherTouch === undefined || frameNow - otherTouch > BILATERAL_WINDOW_MS) continue;
+              }
+
+              this.catchObject(obj, hand);
+              break;
+          }
+      }
+
+      // 停留目標：手離開即重新計時
+      if (def.holdMs && !obj.caught) {
+        if (!coveringHand) obj.holdStartedAt = undefined;
+        else if (obj.holdStartedAt === undefined) obj.holdStartedAt = frameNow;
+        else if (frameNow - obj.holdStartedAt >= def.holdMs) this.catchObject(obj, coveringHand);
+      }
+    });
+
+    this.objects = this.objects.filter(obj => {
+      if (obj.caught) return false;
+      const def = OBJECT_TYPES[obj.type];
+      // 目標一離開畫面即算飛走；較寬的邊界只用於清理其他物件
+      const escaped = def.role === 'target' && hasLeftScreen(obj, CANVAS_WIDTH, CANVAS_HEIGHT);
+      const inBounds = obj.y > -500 && obj.y < CANVAS_HEIGHT + 500 && obj.x > -500 && obj.x < CANVAS_WIDTH + 500;
+      // 超過存在時間或走完飛行路線仍未捕捉，即算飛走
+      const expired = (def.lifetimeMs !== undefined && frameNow - obj.spawnedAt > def.lifetimeMs)
+        || (obj.path !== undefined && frameNow - obj.spawnedAt >= obj.path.durationMs);
+      if ((escaped || !inBounds || expired) && def.role === 'target') {
+        // 以畫面邊緣位置記錄飛走的目標
+        const x = Math.min(Math.max(obj.x, 0), CANVAS_WIDTH);
+        const y = Math.min(Math.max(obj.y, 0), CANVAS_HEIGHT);
+        metricsService.logEscape(obj, x, y);
+        difficultyService.recordOutcome(false);
+        if (obj.field && neglectService.isEnabled()) neglectService.recordOutcome(obj.field, null);
+        this.applyMissPenalty(x, y);
+      }
+      if (expired) this.effects.explosion(obj.x, obj.y, '#B0BEC5');
+      return inBounds && !escaped && !expired;
+    });
+    this.escapeCues.forEach(c => { c.life -= 0.02; });
+    this.escapeCues = this.escapeCues.filter(c => c.life > 0);
+
+    if (setService.isEnabled()) {
+      const transition = setService.update(metricsService.now(), metricsService.getSetCatches());
+      if (transition === 'set-end' || transition === 'done') {
+        // 一組結束：收起未捕捉的物件，不計為飛走
+        metricsService.endSet();
+        this.objects = [];
+      }
+      if (transition === 'done') {
+        this.over = true;
+        return 'over';
+      }
+      if (transition === 'set-start') metricsService.startSet();
+      return transition;
+    }
+    if (this.score.lives <= 0) {
+      this.over = true;
+      return 'over';
+    }
+    return null;
+  }
+
+  private catchObject(obj: GameObject, hand: TrackedHand) {
+    const settings = this.settings!;
+    const def = OBJECT_TYPES[obj.type];
+    const compensated = compensationService.isCompensating();
+    obj.caught = true;
+    metricsService.logCatch(obj, hand, compensated);
+    def.playSound();
+    if (def.role === 'target') {
+      this.score.caught++;
+      if (obj.field && neglectService.isEnabled()) neglectService.recordOutcome(obj.field, metricsService.now() - obj.spawnedAt);
+      this.lastCatchSide = hand.side;
+      difficultyService.recordOutcome(true);
+    }
+    const points = obj.twoHanded ? def.points * 2 : def.points;
+    this.score.score += points;
+    if (def.lifeEffect > 0) this.score.lives = Math.min(settings.initialLives, this.score.lives + def.lifeEffect);
+    this.effects.explosion(obj.x, obj.y, def.lifeEffect > 0 ? '#FF8A80' : '#FFEB3B');
+    if (points > 0) this.effects.floatingText(obj.x, obj.y, `+${points}`, "#FFD700");
+    else if (def.lifeEffect > 0) this.effects.floatingText(obj.x, obj.y, `+${'❤️'.repeat(def.lifeEffect)}`, "#FF8A80");
+    if (compensated) this.effects.floatingText(obj.x, obj.y + 70, t('game.sitUpright'), COMPENSATION_COLOR);
+  }
+
+  // 目標飛走：記為失誤，在離開的位置留下淡淡的提示
+  private applyMissPenalty(x: number, y: number) {
+    const { missPenalty, missPenaltyPoints } = this.settings!;
+    this.score.missed++;
+    const cue = { x: Math.min(Math.max(x, ESCAPE_CUE_INSET), CANVAS_WIDTH - ESCAPE_CUE_INSET), y: Math.min(Math.max(y, ESCAPE_CUE_INSET), CANVAS_HEIGHT - ESCAPE_CUE_INSET), life: 1.0 };
+    this.escapeCues.push(cue);
+    if (missPenalty === MissPenalty.POINTS && missPenaltyPoints > 0) {
+      this.score.score = Math.max(0, this.score.score - missPenaltyPoints);
+      this.effects.floatingText(cue.x, cue.y, `-${missPenaltyPoints}`, "#ECEFF1");
+    } else if (missPenalty === MissPenalty.LIFE && !setService.isEnabled()) {
+      // 分組訓練不計生命
+      this.score.lives -= 1;
+    }
+  }
+}
+
+export const gameService = new GameService();
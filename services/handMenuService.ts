@@ -0,0 +1,204 @@
+import { TrackedHand } from '../types';
+
+// 免觸控操作：選單開啟時手部游標停留在按鈕上一段時間即按下，停留在滑桿上則抓住滑桿並按手的橫向位置調整；
+// 停在可捲動面板的頂部或底部邊緣則向該方向捲動。遊戲中張開手掌停定即暫停
+
+export interface HandPoint {
+  id: number;
+  x: number; // 視窗座標 (px)
+  y: number;
+}
+
+export interface HandCursor extends HandPoint {
+  progress: number; // 0 to 1，停留進度
+  grabbing: boolean; // 正在調整滑桿
+  scrolling: -1 | 0 | 1; // 正在向上 (-1) 或向下 (1) 捲動
+}
+
+type CursorListener = (cursors: HandCursor[]) => void;
+
+interface CursorState {
+  target: HTMLElement | null | undefined; // undefined 為剛出現，尚未判斷位置
+  enteredAt: number;
+  locked: boolean; // 已觸發，或選單開啟時已停在其上：須先移開才會重新計時
+  grabbed: HTMLInputElement | null;
+  scrollSince: number | null; // 開始停在捲動區的時間
+  lastAt: number;
+}
+
+const SELECTABLE = 'button:not(:disabled), input[type="checkbox"]:not(:disabled), input[type="range"]:not(:disabled)';
+// 抓住滑桿後，手偏離滑桿上下多於此距離即放開
+const SLIDER_RELEASE_PX = 60;
+// 捲動區：面板可見部分頂部及底部的高度，停留片刻後開始捲動
+const SCROLL_ZONE_PX = 80;
+const SCROLL_DELAY_MS = 400;
+const SCROLL_PX_PER_MS = 0.6;
+
+// 張開手掌暫停
+export const PALM_HOLD_MS = 2000;
+const PALM_OPEN_MIN = 0.8;
+const PALM_STILL_PX = 40;
+
+const isSlider = (el: HTMLElement): el is HTMLInputElement => el instanceof HTMLInputElement && el.type === 'range';
+
+// 由游標所在元素向上找可捲動的面板
+function findScroller(el: Element | null): HTMLElement | null {
+  for (let node = el; node; node = node.parentElement) {
+    if (node instanceof HTMLElement && node.scrollHeight > node.clientHeight + 1 && /auto|scroll/.test(getComputedStyle(node).overflowY)) return node;
+  }
+  return null;
+}
+
+// 游標在面板可見部分的頂部或底部邊緣，且該方向仍可捲動時回傳方向
+function scrollDirection(scroller: HTMLElement, y: number): -1 | 0 | 1 {
+  const rect = scroller.getBoundingClientRect();
+  const top = Math.max(rect.top, 0);
+  const bottom = Math.min(rect.bottom, window.innerHeight);
+  if (y < top + SCROLL_ZONE_PX && scroller.scrollTop > 0) return -1;
+  if (y > bottom - SCROLL_ZONE_PX && scroller.scrollTop + scroller.clientHeight < scroller.scrollHeight - 1) return 1;
+  return 0;
+}
+
+// 以原生 setter 寫入再發出 input 事件，React 的 onChange 才會收到
+function setSliderValue(input: HTMLInputElement, clientX: number) {
+  const rect = input.getBoundingClientRect();
+  const min = parseFloat(input.min || '0');
+  const max = parseFloat(input.max || '100');
+  const step = parseFloat(input.step) || 1;
+  const ratio = Math.min(1, Math.max(0, (clientX - rect.left) / Math.max(1, rect.width)));
+  const value = Math.min(max, min + Math.round((ratio * (max - min)) / step) * step);
+  const text = String(parseFloat(value.toFixed(6)));
+  if (text === input.value) return;
+  Object.getOwnPropertyDescriptor(HTMLInputElement.prototype, 'value')?.set?.call(input, text);
+  input.dispatchEvent(new Event('input', { bubbles: true }));
+}
+
+class HandMenuService {
+  private dwellMs = 1500;
+  private states = new Map<number, CursorState>();
+  private cursors: HandCursor[] = [];
+  private listeners = new Set<CursorListener>();
+  private armed = false;
+  private palm: { handId: number; x: number; y: number; since: number; progress: number } | null = null;
+
+  setDwellMs(ms: number) {
+    this.dwellMs = ms;
+  }
+
+  subscribe(listener: CursorListener) {
+    this.listeners.add(listener);
+    listener(this.cursors);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  // 每幀在選單開啟時呼叫
+  update(points: HandPoint[], now: number) {
+    const seen = new Set<number>();
+    this.cursors = points.map(point => {
+      seen.add(point.id);
+      let state = this.states.get(point.id);
+      if (!state) {
+        // 選單剛開啟時已停在按鈕上 (例如剛以手勢暫停) 不算選擇
+        state = { target: undefined, enteredAt: now, locked: !this.armed, grabbed: null, scrollSince: null, lastAt: now };
+        this.states.set(point.id, state);
+      }
+      const cursor = this.updateCursor(point, state, now);
+      state.lastAt = now;
+      return cursor;
+    });
+    for (const id of this.states.keys()) {
+      if (!seen.has(id)) this.states.delete(id);
+    }
+    this.armed = true;
+    this.notify();
+  }
+
+  // 選單關閉或停用時呼叫
+  clear() {
+    if (this.states.size === 0 && this.cursors.length === 0 && !this.armed) return;
+    this.states.clear();
+    this.cursors = [];
+    this.armed = false;
+    this.notify();
+  }
+
+  // 遊戲中每幀呼叫；手掌停定夠久時回傳 true
+  updatePalmHold(hands: TrackedHand[], now: number) {
+    const hand = hands.find(h => h.id === this.palm?.handId && h.openness >= PALM_OPEN_MIN) ?? hands.find(h => h.openness >= PALM_OPEN_MIN);
+    if (!hand) {
+      this.palm = null;
+      return false;
+    }
+    const palm = this.palm;
+    if (!palm || palm.handId !== hand.id || Math.hypot(hand.x - palm.x, hand.y - palm.y) > PALM_STILL_PX) {
+      this.palm = { handId: hand.id, x: hand.x, y: hand.y, since: now, progress: 0 };
+      return false;
+    }
+    palm.progress = Math.min(1, (now - palm.since) / PALM_HOLD_MS);
+    if (palm.progress < 1) return false;
+    this.palm = null;
+    return true;
+  }
+
+  resetPalmHold() {
+    this.palm = null;
+  }
+
+  // 供畫面在手上顯示暫停進度
+  getPalmHold(): { handId: number; progress: number } | null {
+    return this.palm && this.palm.progress > 0 ? { handId: this.palm.handId, progress: this.palm.progress } : null;
+  }
+
+  private updateCursor(point: HandPoint, state: CursorState, now: number): HandCursor {
+    if (state.grabbed) {
+      const rect = state.grabbed.getBoundingClientRect();
+      const inBand = point.y >= rect.top - SLIDER_RELEASE_PX && point.y <= rect.bottom + SLIDER_RELEASE_PX;
+      if (inBand && state.grabbed.isConnected && !state.grabbed.disabled) {
+        setSliderValue(state.grabbed, point.x);
+        return { ...point, progress: 1, grabbing: true, scrolling: 0 };
+      }
+      // 放開後須先離開滑桿才會再次抓住
+      state.grabbed = null;
+      state.locked = true;
+    }
+
+    const hit = document.elementFromPoint(point.x, point.y);
+    const scroller = findScroller(hit);
+    const scrolling = scroller ? scrollDirection(scroller, point.y) : 0;
+    if (scroller && scrolling !== 0) {
+      // 在捲動區內不選擇按鈕；離開後須重新停留才會按下
+      state.target = null;
+      state.scrollSince ??= now;
+      const progress = Math.min(1, (now - state.scrollSince) / SCROLL_DELAY_MS);
+      if (progress >= 1) scroller.scrollTop += scrolling * SCROLL_PX_PER_MS * (now - state.lastAt);
+      return { ...point, progress, grabbing: false, scrolling };
+    }
+    state.scrollSince = null;
+
+    const target = hit instanceof Element ? hit.closest<HTMLElement>(SELECTABLE) : null;
+    if (target !== state.target) {
+      if (state.target !== undefined) state.locked = false;
+      state.target = target;
+      state.enteredAt = now;
+    }
+    if (!target || state.locked) return { ...point, progress: 0, grabbing: false, scrolling: 0 };
+
+    const progress = Math.min(1, (now - state.enteredAt) / this.dwellMs);
+    if (progress < 1) return { ...point, progress, grabbing: false, scrolling: 0 };
+
+    state.locked = true;
+    if (isSlider(target)) {
+      state.grabbed = target;
+      setSliderValue(target, point.x);
+      return { ...point, progress: 1, grabbing: true, scrolling: 0 };
+    }
+    target.click();
+    return { ...point, progress: 0, grabbing: false, scrolling: 0 };
+  }
+
+  private notify() {
+    this.listeners.forEach(listener => listener(this.cursors));
+  }
+}
+
+export const handMenuService = new HandMenuService();
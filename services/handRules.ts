@@ -0,0 +1,21 @@
+import { HandRule, HandSide } from '../types';
+
+// 雙手合作鳥：兩隻手需在此時間內先後碰到
+export const BILATERAL_WINDOW_MS = 1200;
+export const BILATERAL_RADIUS_SCALE = 1.6;
+// 出生位置偏向訓練側的機率
+export const TRAINED_SIDE_BIAS = 0.7;
+
+export const otherSide = (side: HandSide): HandSide => side === 'Left' ? 'Right' : 'Left';
+
+// 目前應該訓練哪一隻手；沒有指定時回傳 null
+export function getTrainedSide(rule: HandRule, affectedSide: HandSide, lastCatchSide: HandSide | null): HandSide | null {
+  if (rule === HandRule.AFFECTED_ONLY) return affectedSide;
+  if (rule === HandRule.ALTERNATE) return lastCatchSide ? otherSide(lastCatchSide) : null;
+  return null;
+}
+
+export function isHandAllowed(rule: HandRule, affectedSide: HandSide, lastCatchSide: HandSide | null, side: HandSide) {
+  const trained = getTrainedSide(rule, affectedSide, lastCatchSide);
+  return trained === null || trained === side;
+}
@@ -0,0 +1,146 @@
+import { describe, expect, it } from 'vitest';
+import { HandTracker } from './handTracker';
+import { TrackedHand, TrackingFilter } from '../types';
+import { DETECTION_INTERVAL_MS, FIXTURE_HEIGHT, FIXTURE_WIDTH, HandScenario, crossing, dropoutBesideOtherHand, idSwap, longDropout, shortDropout, steadySweep, toLandmarkFrame } from './__fixtures__/handScenarios';
+
+// 以合成的場景測試 (見 __fixtures__/handScenarios.ts)，非真實錄得的關鍵點
+
+// 每次偵測之間的補間幀數 (約 60 FPS 對 14 FPS 偵測)
+const PREDICT_FRAMES = 3;
+
+interface Step {
+  detected: TrackedHand[]; // update 之後
+  predicted: TrackedHand[]; // 下一次偵測前最後一次 predict 之後
+}
+
+function run(scenario: HandScenario, filter: TrackingFilter): Step[] {
+  const tracker = new HandTracker({ width: FIXTURE_WIDTH, height: FIXTURE_HEIGHT, filter });
+  return scenario.detections.map((hands, i) => {
+    const detected = tracker.update(toLandmarkFrame(hands), i * DETECTION_INTERVAL_MS).map(h => ({ ...h }));
+    let predicted = detected;
+    for (let f = 0; f < PREDICT_FRAMES; f++) predicted = tracker.predict().map(h => ({ ...h }));
+    return { detected, predicted };
+  });
+}
+
+// crossing 中兩手移動的偵測次數，之後停定
+const CROSSING_MOVING_STEPS = 25;
+
+const byId = (hands: TrackedHand[], id: number) => hands.find(h => h.id === id);
+const ids = (steps: Step[]) => new Set(steps.flatMap(s => s.detected.map(h => h.id)));
+
+describe.each(Object.values(TrackingFilter))('HandTracker (%s)', filter => {
+  it('keeps ids on their hands when detection order and handedness labels swap', () => {
+    const steps = run(idSwap, filter);
+    expect(ids(steps)).toEqual(new Set([1, 2]));
+    steps.forEach(({ detected }) => {
+      expect(detected).toHaveLength(2);
+      expect(byId(detected, 1)!.x).toBeCloseTo(400, 0);
+      expect(byId(detected, 2)!.x).toBeCloseTo(880, 0);
+    });
+    // 標籤互換只影響當時的左右手判斷，之後回復
+    const last = steps[steps.length - 1].detected;
+    expect(byId(last, 1)!.side).toBe('Left');
+    expect(byId(last, 2)!.side).toBe('Right');
+  });
+
+  it('coasts through a short dropout and resumes with the same id', () => {
+    const steps = run(shortDropout, filter);
+    expect(ids(steps)).toEqual(new Set([1]));
+
+    const beforeGap = steps[9].detected[0];
+    const inGap = steps.slice(10, 15).map(s => s.detected[0]);
+    inGap.forEach((hand, i) => {
+      expect(hand.framesMissing).toBe(i + 1);
+      expect(hand.alpha).toBe(1);
+    });
+    // 失去偵測期間按慣性繼續向右移動
+    expect(inGap[inGap.length - 1].x).toBeGreaterThan(beforeGap.x);
+
+    const after = steps[15].detected[0];
+    expect(after.framesMissing).toBe(0);
+    expect(after.framesDetected).toBe(beforeGap.framesDetected + 1);
+    expect(steps[steps.length - 1].detected[0].x).toBeGreaterThan(800);
+  });
+
+  it('does not hand the other hand\'s detection to a hand that dropped out', () => {
+    const steps = run(dropoutBesideOtherHand, filter);
+    expect(ids(steps)).toEqual(new Set([1, 2]));
+    steps.forEach(({ detected }) => {
+      expect(byId(detected, 1)!.side).toBe('Left');
+      expect(byId(detected, 2)!.side).toBe('Right');
+      expect(byId(detected, 2)!.x).toBeCloseTo(960, 0);
+    });
+    steps.slice(10, 14).forEach(({ detected }, i) => expect(byId(detected, 1)!.framesMissing).toBe(i + 1));
+  });
+
+  it('drops a hand missing past the persistence window and starts a new id when it returns', () => {
+    const steps = run(longDropout, filter);
+    const duringGap = steps.slice(10, 55).map(s => s.detected.length);
+    expect(duringGap[0]).toBe(1);
+    expect(duringGap[duringGap.length - 1]).toBe(0);
+    const returned = steps[55].detected;
+    expect(returned).toHaveLength(1);
+    expect(returned[0].id).toBe(2);
+    expect(returned[0].framesDetected).toBe(1);
+  });
+
+  it('follows each hand across the midline when the hands cross', () => {
+    const steps = run(crossing, filter);
+    expect(ids(steps)).toEqual(new Set([1, 2]));
+    steps.forEach(({ detected }) => {
+      // 左手在上方 (y 340)，右手在下方 (y 460)，交叉期間不會互換
+      expect(byId(detected, 1)!.side).toBe('Left');
+      expect(Math.abs(byId(detected, 1)!.y - 340)).toBeLessThan(1);
+      expect(byId(detected, 2)!.side).toBe('Right');
+      expect(Math.abs(byId(detected, 2)!.y - 460)).toBeLessThan(1);
+    });
+    const last = steps[steps.length - 1].detected;
+    expect(Math.abs(byId(last, 1)!.x - 980)).toBeLessThan(20);
+    expect(Math.abs(byId(last, 2)!.x - 300)).toBeLessThan(20);
+  });
+
+  it('moves each detection on from the extrapolated cursor instead of snapping back', () => {
+    const steps = run(crossing, filter);
+    // 每次偵測的結果介乎補間後的位置與偵測位置之間 (包括手停下、補間衝過頭時)；
+    // 卡爾曼以自身的速度估計預測，移動期間不會被拉回補間位置之後，但手停下時會稍為衝過頭再回來
+    const checked = filter === TrackingFilter.KALMAN ? CROSSING_MOVING_STEPS : steps.length;
+    for (let i = 1; i < checked; i++) {
+      const from = byId(steps[i - 1].predicted, 1)!.x;
+      const measured = crossing.detections[i]![0].x;
+      const x = byId(steps[i].detected, 1)!.x;
+      const ahead = measured >= from ? 1 : -1;
+      expect((x - from) * ahead).toBeGreaterThanOrEqual(-1e-6);
+      if (filter !== TrackingFilter.KALMAN) expect((x - measured) * ahead).toBeLessThanOrEqual(1e-6);
+    }
+    // 等速移動期間補間向前推進
+    for (let i = 3; i < 20; i++) {
+      expect(byId(steps[i].predicted, 1)!.x).toBeGreaterThan(byId(steps[i].detected, 1)!.x);
+    }
+  });
+
+  it('numbers hands from 1 again after reset', () => {
+    const tracker = new HandTracker({ width: FIXTURE_WIDTH, height: FIXTURE_HEIGHT, filter });
+    tracker.update(toLandmarkFrame(idSwap.detections[0]), 0);
+    tracker.reset();
+    expect(tracker.update(toLandmarkFrame(idSwap.detections[0]), DETECTION_INTERVAL_MS).map(h => h.id)).toEqual([1, 2]);
+  });
+});
+
+describe('tracking filters on a steady sweep', () => {
+  // 穩定後偵測位置與濾波結果的差距
+  const lag = (filter: TrackingFilter) => {
+    const steps = run(steadySweep, filter);
+    const last = steps.length - 1;
+    return steadySweep.detections[last]![0].x - steps[last].detected[0].x;
+  };
+
+  it('lags behind an adaptive lerp, less behind One-Euro and not at all with the constant-velocity Kalman', () => {
+    const adaptive = lag(TrackingFilter.ADAPTIVE);
+    const oneEuro = lag(TrackingFilter.ONE_EURO);
+    const kalman = lag(TrackingFilter.KALMAN);
+    expect(adaptive).toBeGreaterThan(oneEuro + 5);
+    expect(oneEuro).toBeGreaterThan(5);
+    expect(Math.abs(kalman)).toBeLessThan(1);
+  });
+});
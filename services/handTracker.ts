@@ -0,0 +1,300 @@
+import { HandSide, Point, TrackedHand, TrackingFilter } from '../types';
+
+// 純邏輯手部追蹤器：輸入 MediaPipe 關鍵點與時間戳，輸出 TrackedHand 狀態。
+// 不依賴 React 或 DOM，方便重用及以錄製資料重播。
+
+export interface Landmark {
+  x: number;
+  y: number;
+  z?: number;
+}
+
+export interface LandmarkFrame {
+  landmarks: Landmark[][];
+  handedness: { categoryName: string }[][];
+}
+
+export interface HandTrackerOptions {
+  width: number;
+  height: number;
+  filter?: TrackingFilter;
+}
+
+// 穩定追蹤參數 (針對 iPad/Mobile 優化)
+const PERSISTENCE_FRAMES = 40;
+const MAX_MATCH_DIST = 400;
+const GRACE_PERIOD = 8;
+export const STABILITY_THRESHOLD = 1;
+
+// Adaptive Smoothing Parameters
+const MIN_SMOOTHING = 0.15;
+const MAX_SMOOTHING = 0.8;
+const OPENNESS_SMOOTHING = 0.6;
+
+// One-Euro Parameters (px, 秒)
+const ONE_EURO_MIN_CUTOFF = 1.0;
+const ONE_EURO_BETA = 0.005;
+const ONE_EURO_D_CUTOFF = 1.0;
+
+// Constant-Velocity Kalman Parameters (加速度白噪聲 px²/s⁴，量度噪聲 px²)
+const KALMAN_PROCESS_NOISE = 200000;
+const KALMAN_MEASUREMENT_NOISE = 64;
+
+const FINGERTIPS = [4, 8, 12, 16, 20];
+// 指尖到手腕距離 / 手掌長度 (手腕到中指根部)：握拳約 1.0，張開約 1.9
+const CLOSED_RATIO = 1.0;
+const OPEN_RATIO = 1.9;
+
+// 由 21 個關鍵點計算手掌張開程度：0 = 握拳，1 = 完全張開
+export function getHandOpenness(landmarks: Landmark[]): number {
+  const wrist = landmarks[0];
+  const palm = Math.hypot(landmarks[9].x - wrist.x, landmarks[9].y - wrist.y);
+  if (palm === 0) return 1;
+  const reach = FINGERTIPS.reduce((sum, i) => sum + Math.hypot(landmarks[i].x - wrist.x, landmarks[i].y - wrist.y), 0) / FINGERTIPS.length;
+  return Math.min(1, Math.max(0, (reach / palm - CLOSED_RATIO) / (OPEN_RATIO - CLOSED_RATIO)));
+}
+
+interface PositionFilter {
+  // prev 為目前畫面上的位置 (包含補間移動)，t 為毫秒
+  update(measured: Point, prev: Point, t: number): Point;
+}
+
+class AdaptiveLerpFilter implements PositionFilter {
+  update(measured: Point, prev: Point): Point {
+    const moveDist = Math.hypot(measured.x - prev.x, measured.y - prev.y);
+    const adaptiveAlpha = MIN_SMOOTHING + (Math.min(moveDist, 150) / 150) * (MAX_SMOOTHING - MIN_SMOOTHING);
+    return { x: prev.x + (measured.x - prev.x) * adaptiveAlpha, y: prev.y + (measured.y - prev.y) * adaptiveAlpha };
+  }
+}
+
+const smoothingFactor = (dt: number, cutoff: number) => {
+  const r = 2 * Math.PI * cutoff * dt;
+  return r / (r + 1);
+};
+
+class OneEuroAxis {
+  private value: number | null = null;
+  private lastMeasured: number = 0;
+  private derivative: number = 0;
+  private lastT: number = 0;
+
+  // prev 為畫面上的位置 (包含補間移動)，由此出發平滑，游標不會被拉回上次的輸出
+  filter(measured: number, prev: number, t: number) {
+    if (this.value === null) {
+      this.value = prev; this.lastMeasured = measured; this.lastT = t;
+      return prev;
+    }
+    const dt = Math.max(0.001, (t - this.lastT) / 1000);
+    // 速度以兩次偵測之間的位移估算，不受補間影響
+    const rawDerivative = (measured - this.lastMeasured) / dt;
+    this.derivative += smoothingFactor(dt, ONE_EURO_D_CUTOFF) * (rawDerivative - this.derivative);
+    const cutoff = ONE_EURO_MIN_CUTOFF + ONE_EURO_BETA * Math.abs(this.derivative);
+    this.value = prev + smoothingFactor(dt, cutoff) * (measured - prev);
+    this.lastMeasured = measured;
+    this.lastT = t;
+    return this.value;
+  }
+}
+
+class OneEuroFilter implements PositionFilter {
+  private xAxis = new OneEuroAxis();
+  private yAxis = new OneEuroAxis();
+
+  update(measured: Point, prev: Point, t: number): Point {
+    return { x: this.xAxis.filter(measured.x, prev.x, t), y: this.yAxis.filter(measured.y, prev.y, t) };
+  }
+}
+
+// 單軸等速模型：狀態為 [位置, 速度]，以自身的速度估計預測下一次偵測的位置
+class KalmanAxis {
+  private p: number | null = null;
+  private v: number = 0;
+  private cov = [[KALMAN_MEASUREMENT_NOISE, 0], [0, 1000]];
+  private lastT: number = 0;
+
+  filter(measured: number, prev: number, t: number) {
+    if (this.p === null) {
+      this.p = prev; this.lastT = t;
+      return prev;
+    }
+    const dt = Math.max(0.001, (t - this.lastT) / 1000);
+    this.lastT = t;
+
+    // Predict：x = F x，P = F P Fᵀ + Q (F = [[1, dt], [0, 1]]，Q 為白噪聲加速度)
+    this.p += this.v * dt;
+    const [[p00, p01], [p10, p11]] = this.cov;
+    const q = KALMAN_PROCESS_NOISE;
+    const n00 = p00 + dt * (p10 + p01) + dt * dt * p11 + q * dt ** 4 / 4;
+    const n01 = p01 + dt * p11 + q * dt ** 3 / 2;
+    const n10 = p10 + dt * p11 + q * dt ** 3 / 2;
+    const n11 = p11 + q * dt * dt;
+
+    // Update：只量度位置 (H = [1, 0])
+    const s = n00 + KALMAN_MEASUREMENT_NOISE;
+    const k0 = n00 / s;
+    const k1 = n10 / s;
+    const residual = measured - this.p;
+    this.p += k0 * residual;
+    this.v += k1 * residual;
+    this.cov = [[(1 - k0) * n00, (1 - k0) * n01], [n10 - k1 * n00, n11 - k1 * n01]];
+    return this.p;
+  }
+}
+
+class KalmanFilter implements PositionFilter {
+  private xAxis = new KalmanAxis();
+  private yAxis = new KalmanAxis();
+
+  update(measured: Point, prev: Point, t: number): Point {
+    return { x: this.xAxis.filter(measured.x, prev.x, t), y: this.yAxis.filter(measured.y, prev.y, t) };
+  }
+}
+
+function createFilter(kind: TrackingFilter): PositionFilter {
+  switch (kind) {
+    case TrackingFilter.ONE_EURO: return new OneEuroFilter();
+    case TrackingFilter.KALMAN: return new KalmanFilter();
+    default: return new AdaptiveLerpFilter();
+  }
+}
+
+interface Detection {
+  x: number;
+  y: number;
+  side: HandSide;
+  openness: number;
+}
+
+export class HandTracker {
+  private hands: TrackedHand[] = [];
+  private filters = new Map<number, PositionFilter>();
+  private nextId: number = 1;
+  private width: number;
+  private height: number;
+  private filterKind: TrackingFilter;
+
+  constructor(options: HandTrackerOptions) {
+    this.width = options.width;
+    this.height = options.height;
+    this.filterKind = options.filter ?? TrackingFilter.ADAPTIVE;
+  }
+
+  getHands() {
+    return this.hands;
+  }
+
+  setFilter(kind: TrackingFilter) {
+    if (kind === this.filterKind) return;
+    this.filterKind = kind;
+    this.filters.clear();
+  }
+
+  // 新一節訓練或重播開始時呼叫，id 亦由頭編號，令錄影可重現
+  reset() {
+    this.hands = [];
+    this.filters.clear();
+    this.nextId = 1;
+  }
+
+  // 將關鍵點轉換為畫面座標 (鏡像)，並修正左右手標籤
+  private toDetections(frame: LandmarkFrame | null): Detection[] {
+    if (!frame || !frame.landmarks) return [];
+    return frame.landmarks.map((landmarkSet, i) => {
+      const landmark = landmarkSet[9];
+      return {
+        x: (1 - landmark.x) * this.width, y: landmark.y * this.height,
+        side: (frame.handedness[i]?.[0]?.categoryName === 'Left' ? 'Right' : 'Left') as HandSide,
+        openness: getHandOpenness(landmarkSet)
+      };
+    });
+  }
+
+  private filterFor(id: number) {
+    let filter = this.filters.get(id);
+    if (!filter) {
+      filter = createFilter(this.filterKind);
+      this.filters.set(id, filter);
+    }
+    return filter;
+  }
+
+  // AI 偵測結果到達時呼叫；frame 為 null 代表這次沒有新偵測
+  update(frame: LandmarkFrame | null, timestamp: number): TrackedHand[] {
+    const detections = this.toDetections(frame);
+    const nextHands: TrackedHand[] = [];
+    const usedDetections = new Set<number>();
+
+    // 所有手與偵測結果按加權距離由近至遠配對，避免先處理的手 (例如正在補間的手) 搶走另一隻手的偵測
+    const pairs: { hand: number; detection: number; dist: number }[] = [];
+    this.hands.forEach((hand, handIdx) => {
+      const predX = hand.x + hand.vx * 0.8;
+      const predY = hand.y + hand.vy * 0.8;
+      detections.forEach((det, idx) => {
+        const d = Math.hypot(det.x - predX, det.y - predY);
+        const sideBonus = (hand.side === det.side) ? 0.6 : 1.0;
+        const weightedDist = d * sideBonus;
+        if (weightedDist < MAX_MATCH_DIST) pairs.push({ hand: handIdx, detection: idx, dist: weightedDist });
+      });
+    });
+    pairs.sort((a, b) => a.dist - b.dist);
+    const matches = new Map<number, number>();
+    pairs.forEach(pair => {
+      if (matches.has(pair.hand) || usedDetections.has(pair.detection)) return;
+      matches.set(pair.hand, pair.detection);
+      usedDetections.add(pair.detection);
+    });
+
+    this.hands.forEach((hand, handIdx) => {
+      const bestIdx = matches.get(handIdx) ?? -1;
+      if (bestIdx !== -1) {
+        const det = detections[bestIdx];
+        const smooth = this.filterFor(hand.id).update(det, hand, timestamp);
+        nextHands.push({
+          ...hand, x: smooth.x, y: smooth.y, vx: smooth.x - hand.x, vy: smooth.y - hand.y,
+          framesMissing: 0, alpha: 1.0, framesDetected: hand.framesDetected + 1, side: det.side,
+          openness: hand.openness + (det.openness - hand.openness) * OPENNESS_SMOOTHING
+        });
+      } else if (hand.framesMissing < PERSISTENCE_FRAMES) {
+        // 短暫遺失：以減速的慣性推算位置，超過寬限期後淡出
+        const damping = 0.9;
+        const nextVx = hand.vx * damping; const nextVy = hand.vy * damping;
+        const nextFramesMissing = hand.framesMissing + 1;
+        let newAlpha = hand.alpha;
+        if (nextFramesMissing > GRACE_PERIOD) {
+           newAlpha = Math.max(0, hand.alpha - 0.05);
+        }
+        nextHands.push({
+          ...hand, x: hand.x + nextVx, y: hand.y + nextVy, vx: nextVx, vy: nextVy,
+          framesMissing: nextFramesMissing, framesDetected: hand.framesDetected, alpha: newAlpha
+        });
+      } else {
+        this.filters.delete(hand.id);
+      }
+    });
+
+    detections.forEach((det, idx) => {
+      if (!usedDetections.has(idx)) {
+        const id = this.nextId++;
+        this.filterFor(id).update(det, det, timestamp);
+        nextHands.push({
+          id, x: det.x, y: det.y, vx: 0, vy: 0, side: det.side, alpha: 1.0, framesMissing: 0, framesDetected: 1,
+          openness: det.openness, closed: false, closedAt: 0
+        });
+      }
+    });
+    this.hands = nextHands;
+    return this.hands;
+  }
+
+  // 輕量物理補間 (在 AI 沒跑的幀運行)
+  predict(): TrackedHand[] {
+    this.hands.forEach(hand => {
+        // 因為偵測間隔較長 (70ms)，慣性系數要調低，避免衝過頭
+        hand.x += hand.vx * 0.3;
+        hand.y += hand.vy * 0.3;
+        hand.vx *= 0.8;
+        hand.vy *= 0.8;
+    });
+    return this.hands;
+  }
+}
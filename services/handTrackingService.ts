@@ -1,27 +1,71 @@
 
-import { FilesetResolver, HandLandmarker } from "https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.9/+esm";
+import { FilesetResolver, HandLandmarker } from "@mediapipe/tasks-vision";
+
+// 模型與 WASM 預設隨 App 一同發佈，可透過環境變數改為其他位置
+export const DEFAULT_WASM_PATH = process.env.MEDIAPIPE_WASM_PATH || "/mediapipe/wasm";
+const DEFAULT_MODEL_PATH = process.env.HAND_MODEL_PATH || "/models/hand_landmarker.task";
+
+export type LoadStage = 'downloading' | 'compiling' | 'warming-up' | 'ready';
+
+export interface LoadProgress {
+  stage: LoadStage;
+  progress?: number; // 0 to 1，只在下載階段提供
+  delegate?: 'GPU' | 'CPU';
+}
+
+export interface HandTrackingOptions {
+  wasmPath?: string;
+  modelPath?: string;
+  onProgress?: (progress: LoadProgress) => void;
+}
+
+// 以串流下載模型以回報進度；姿勢追蹤亦共用
+export async function downloadModel(path: string, onProgress: (progress: number) => void) {
+  const response = await fetch(path);
+  if (!response.ok || !response.body) throw new Error(`無法下載模型 ${path} (${response.status})`);
+  const total = Number(response.headers.get('content-length')) || 0;
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    received += value.length;
+    if (total > 0) onProgress(Math.min(1, received / total));
+  }
+  const buffer = new Uint8Array(received);
+  let offset = 0;
+  chunks.forEach(chunk => { buffer.set(chunk, offset); offset += chunk.length; });
+  return buffer;
+}
+
+type Vision = Awaited<ReturnType<typeof FilesetResolver.forVisionTasks>>;
+type Delegate = 'GPU' | 'CPU';
 
 export class HandTrackingService {
   private handLandmarker: HandLandmarker | null = null;
   private lastVideoTime = -1;
+  private delegate: Delegate = 'GPU';
+  // 保留已載入的 WASM 與模型，遊戲中 GPU 推論失敗時可改用 CPU 重建
+  private loaded: { vision: Vision; modelBuffer: Uint8Array } | null = null;
 
-  async initialize() {
+  async initialize(options: HandTrackingOptions = {}) {
+    const { wasmPath = DEFAULT_WASM_PATH, modelPath = DEFAULT_MODEL_PATH, onProgress } = options;
     try {
-      const vision = await FilesetResolver.forVisionTasks(
-        "https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.9/wasm"
-      );
-      
-      this.handLandmarker = await HandLandmarker.createFromOptions(vision, {
-        baseOptions: {
-          modelAssetPath: `https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task`,
-          delegate: "GPU"
-        },
-        runningMode: "VIDEO",
-        numHands: 2,
-        minHandDetectionConfidence: 0.4, // 降低門檻，依靠 6.0 的緩衝與預測來處理雜訊
-        minHandPresenceConfidence: 0.4,  
-        minTrackingConfidence: 0.5      
-      });
+      onProgress?.({ stage: 'downloading', progress: 0 });
+      const modelBuffer = await downloadModel(modelPath, progress => onProgress?.({ stage: 'downloading', progress }));
+      const vision = await FilesetResolver.forVisionTasks(wasmPath);
+      this.loaded = { vision, modelBuffer };
+
+      // 部分平板或被鎖定的瀏覽器無法建立 GPU delegate，或建立後首次推論即出錯，失敗時自動改用 CPU
+      try {
+        await this.start('GPU', onProgress);
+      } catch (gpuError) {
+        console.warn("GPU 模式啟動失敗，改用 CPU:", gpuError);
+        await this.start('CPU', onProgress);
+      }
+      onProgress?.({ stage: 'ready', delegate: this.delegate });
       return true;
     } catch (error) {
       console.error("追蹤系統啟動失敗:", error);
@@ -29,11 +73,56 @@ export class HandTrackingService {
     }
   }
 
+  private async start(delegate: Delegate, onProgress?: (progress: LoadProgress) => void) {
+    if (!this.loaded) return;
+    this.close();
+    this.delegate = delegate;
+    onProgress?.({ stage: 'compiling', delegate });
+    this.handLandmarker = await this.createLandmarker(this.loaded.vision, this.loaded.modelBuffer, delegate);
+    onProgress?.({ stage: 'warming-up', delegate });
+    this.warmUp();
+  }
+
+  private close() {
+    this.handLandmarker?.close();
+    this.handLandmarker = null;
+  }
+
+  private createLandmarker(vision: Vision, modelBuffer: Uint8Array, delegate: Delegate) {
+    return HandLandmarker.createFromOptions(vision, {
+      baseOptions: {
+        modelAssetBuffer: modelBuffer,
+        delegate
+      },
+      runningMode: "VIDEO",
+      numHands: 2,
+      minHandDetectionConfidence: 0.4, // 降低門檻，依靠 6.0 的緩衝與預測來處理雜訊
+      minHandPresenceConfidence: 0.4,
+      minTrackingConfidence: 0.5
+    });
+  }
+
+  // 先以空白畫面跑一次推論，避免第一幀遊戲時卡頓
+  private warmUp() {
+    if (!this.handLandmarker) return;
+    const canvas = document.createElement('canvas');
+    canvas.width = 64; canvas.height = 64;
+    this.handLandmarker.detectForVideo(canvas, performance.now());
+  }
+
   detect(video: HTMLVideoElement) {
     if (!this.handLandmarker) return null;
     if (video.currentTime !== this.lastVideoTime && video.readyState >= 2) {
       this.lastVideoTime = video.currentTime;
-      return this.handLandmarker.detectForVideo(video, performance.now());
+      try {
+        return this.handLandmarker.detectForVideo(video, performance.now());
+      } catch (error) {
+        if (this.delegate !== 'GPU') throw error;
+        // GPU 推論失敗：改用 CPU 重建，期間暫無偵測結果
+        console.warn("GPU 推論失敗，改用 CPU:", error);
+        this.close();
+        this.start('CPU').catch(cpuError => console.error("改用 CPU 失敗:", cpuError));
+      }
     }
     return null;
   }
@@ -0,0 +1,97 @@
+import { Locale } from '../types';
+import zhHK from '../locales/zh-HK';
+import zhCN from '../locales/zh-CN';
+import en from '../locales/en';
+
+// 介面文字目錄：以 zh-HK 為基準，其他語言須提供相同的鍵
+
+export type MessageKey = keyof typeof zhHK;
+// 複數訊息按 Intl.PluralRules 以 count 參數選擇形式，缺少的形式改用 other
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+export type Message = string | PluralMessage;
+export type Catalog = Record<MessageKey, Message>;
+export type MessageParams = Record<string, string | number>;
+
+const CATALOGS: Record<Locale, Catalog> = {
+  [Locale.ZH_HK]: zhHK,
+  [Locale.ZH_CN]: zhCN,
+  [Locale.EN]: en,
+};
+
+// 語言選單以各自的語言顯示，不隨介面語言改變
+export const LOCALE_NAMES: Record<Locale, string> = {
+  [Locale.ZH_HK]: '繁體中文',
+  [Locale.ZH_CN]: '简体中文',
+  [Locale.EN]: 'English',
+};
+
+const STORAGE_KEY = 'SKY_CATCH_LOCALE';
+
+const isLocale = (value: string | null): value is Locale => Object.values(Locale).includes(value as Locale);
+
+class I18nService {
+  private locale: Locale = Locale.ZH_HK;
+  private pluralRules = new Intl.PluralRules(Locale.ZH_HK);
+  private numberFormat = new Intl.NumberFormat(Locale.ZH_HK, { maximumFractionDigits: 2 });
+
+  constructor() {
+    const saved = typeof localStorage === 'undefined' ? null : localStorage.getItem(STORAGE_KEY);
+    if (isLocale(saved)) this.use(saved);
+  }
+
+  getLocale() {
+    return this.locale;
+  }
+
+  // 切換語言並記住選擇，同時更新頁面的 lang 與標題
+  setLocale(locale: Locale) {
+    this.use(locale);
+    localStorage.setItem(STORAGE_KEY, locale);
+    this.applyToDocument();
+  }
+
+  applyToDocument() {
+    document.documentElement.lang = this.locale;
+    document.title = this.t('app.title');
+  }
+
+  t(key: MessageKey, params?: MessageParams) {
+    const message = CATALOGS[this.locale][key] ?? zhHK[key];
+    const text = typeof message === 'string'
+      ? message
+      : message[this.pluralRules.select(Number(params?.count ?? 0))] ?? message.other;
+    if (!params) return text;
+    return text.replace(/\{(\w+)\}/g, (match, name: string) => {
+      const value = params[name];
+      if (value === undefined) return match;
+      return typeof value === 'number' ? this.numberFormat.format(value) : value;
+    });
+  }
+
+  formatNumber(value: number, fractionDigits?: number) {
+    if (fractionDigits === undefined) return this.numberFormat.format(value);
+    return new Intl.NumberFormat(this.locale, { minimumFractionDigits: fractionDigits, maximumFractionDigits: fractionDigits }).format(value);
+  }
+
+  formatPercent(ratio: number) {
+    return new Intl.NumberFormat(this.locale, { style: 'percent', maximumFractionDigits: 0 }).format(ratio);
+  }
+
+  formatDate(t: number, options?: Intl.DateTimeFormatOptions) {
+    return new Date(t).toLocaleDateString(this.locale, options);
+  }
+
+  formatDateTime(t: number) {
+    return new Date(t).toLocaleString(this.locale);
+  }
+
+  private use(locale: Locale) {
+    this.locale = locale;
+    this.pluralRules = new Intl.PluralRules(locale);
+    this.numberFormat = new Intl.NumberFormat(locale, { maximumFractionDigits: 2 });
+  }
+}
+
+export const i18n = new I18nService();
+
+export const t = (key: MessageKey, params?: MessageParams) => i18n.t(key, params);
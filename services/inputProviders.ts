@@ -0,0 +1,335 @@
+import { HandSide, InputKind, TrackedHand, TrackingFilter } from '../types';
+import { HandTracker, LandmarkFrame } from './handTracker';
+import { handTrackingService } from './handTrackingService';
+
+// 每一種輸入來源都在每幀輸出 TrackedHand，遊戲邏輯與繪圖不需理會來源
+
+export interface InputProvider {
+  readonly kind: InputKind;
+  start(): void;
+  stop(): void;
+  reset(): void; // 新一節訓練開始時清除手部狀態，確保錄製可重現
+  update(now: number): TrackedHand[];
+}
+
+export interface InputContext {
+  canvas: HTMLCanvasElement;
+  video: HTMLVideoElement;
+  width: number;
+  height: number;
+}
+
+// 效能優化：限制 AI 偵測頻率至 70ms (約 14 FPS)，大幅減少運算
+const TRACKING_THROTTLE_MS = 70;
+const KEYBOARD_SPEED = 12;
+
+// 以上一幀的手延續 id、握拳狀態及偵測幀數
+export function nextHand(prev: TrackedHand | undefined, id: number, side: HandSide, x: number, y: number, openness: number): TrackedHand {
+  return {
+    closed: false, closedAt: 0,
+    ...prev,
+    id, side, x, y, openness,
+    vx: prev ? x - prev.x : 0, vy: prev ? y - prev.y : 0,
+    alpha: 1.0, framesMissing: 0, framesDetected: (prev?.framesDetected ?? 0) + 1
+  };
+}
+
+// 畫面左半邊視為左手，右半邊視為右手
+const sideAt = (x: number, width: number): HandSide => x < width / 2 ? 'Left' : 'Right';
+
+export class CameraInputProvider implements InputProvider {
+  readonly kind = InputKind.CAMERA;
+  private tracker: HandTracker;
+  private lastTrackingTime: number = 0;
+  // 本幀的偵測結果：undefined 代表本幀只做補間
+  lastDetection: LandmarkFrame | null | undefined = undefined;
+
+  constructor(private context: InputContext, filter: TrackingFilter) {
+    this.tracker = new HandTracker({ width: context.width, height: context.height, filter });
+  }
+
+  setFilter(filter: TrackingFilter) {
+    this.tracker.setFilter(filter);
+  }
+
+  start() {
+    this.tracker.reset();
+  }
+
+  stop() {}
+
+  reset() {
+    this.tracker.reset();
+  }
+
+  update(now: number) {
+    if (now - this.lastTrackingTime >= TRACKING_THROTTLE_MS) {
+      this.lastTrackingTime = now;
+      this.lastDetection = handTrackingService.detect(this.context.video);
+      return this.tracker.update(this.lastDetection, now);
+    }
+    // 在 AI 休息的幀，使用物理預測移動手部，保持 60 FPS 流暢感
+    this.lastDetection = undefined;
+    return this.tracker.predict();
+  }
+}
+
+// 把指標座標換算為畫布座標 (畫布以 object-fit: contain 縮放)
+function toCanvasPoint(context: InputContext, clientX: number, clientY: number) {
+  const rect = context.canvas.getBoundingClientRect();
+  const scale = Math.min(rect.width / context.width, rect.height / context.height);
+  const offsetX = (rect.width - context.width * scale) / 2;
+  const offsetY = (rect.height - context.height * scale) / 2;
+  return { x: (clientX - rect.left - offsetX) / scale, y: (clientY - rect.top - offsetY) / scale };
+}
+
+export class MouseInputProvider implements InputProvider {
+  readonly kind = InputKind.MOUSE;
+  private position: { x: number; y: number } | null = null;
+  private pressed: boolean = false;
+  private hand: TrackedHand | undefined;
+
+  constructor(private context: InputContext) {}
+
+  private onMove = (e: PointerEvent) => {
+    if (e.pointerType === 'touch') return;
+    this.position = toCanvasPoint(this.context, e.clientX, e.clientY);
+  };
+  private onDown = (e: PointerEvent) => { if (e.pointerType !== 'touch') this.pressed = true; };
+  private onUp = () => { this.pressed = false; };
+  private onLeave = () => { this.position = null; };
+
+  start() {
+    const canvas = this.context.canvas;
+    canvas.addEventListener('pointermove', this.onMove);
+    canvas.addEventListener('pointerdown', this.onDown);
+    window.addEventListener('pointerup', this.onUp);
+    canvas.addEventListener('pointerleave', this.onLeave);
+  }
+
+  stop() {
+    const canvas = this.context.canvas;
+    canvas.removeEventListener('pointermove', this.onMove);
+    canvas.removeEventListener('pointerdown', this.onDown);
+    window.removeEventListener('pointerup', this.onUp);
+    canvas.removeEventListener('pointerleave', this.onLeave);
+    this.position = null;
+    this.hand = undefined;
+  }
+
+  reset() {
+    this.hand = undefined;
+  }
+
+  // 按住滑鼠鍵代表握拳
+  update() {
+    if (!this.position) {
+      this.hand = undefined;
+      return [];
+    }
+    const { x, y } = this.position;
+    this.hand = nextHand(this.hand, 1, sideAt(x, this.context.width), x, y, this.pressed ? 0 : 1);
+    return [this.hand];
+  }
+}
+
+export class TouchInputProvider implements InputProvider {
+  readonly kind = InputKind.TOUCH;
+  // 每根手指代表一隻手，左右以落指位置決定
+  private touches = new Map<number, { x: number; y: number; side: HandSide }>();
+  private hands = new Map<number, TrackedHand>();
+
+  constructor(private context: InputContext) {}
+
+  private onDown = (e: PointerEvent) => {
+    if (e.pointerType !== 'touch') return;
+    const taken = new Set([...this.touches.values()].map(t => t.side));
+    if (taken.size >= 2) return;
+    const p = toCanvasPoint(this.context, e.clientX, e.clientY);
+    let side = sideAt(p.x, this.context.width);
+    if (taken.has(side)) side = side === 'Left' ? 'Right' : 'Left';
+    this.touches.set(e.pointerId, { ...p, side });
+  };
+  private onMove = (e: PointerEvent) => {
+    const touch = this.touches.get(e.pointerId);
+    if (touch) Object.assign(touch, toCanvasPoint(this.context, e.clientX, e.clientY));
+  };
+  private onUp = (e: PointerEvent) => {
+    this.touches.delete(e.pointerId);
+    this.hands.delete(e.pointerId);
+  };
+
+  start() {
+    const canvas = this.context.canvas;
+    canvas.style.touchAction = 'none';
+    canvas.addEventListener('pointerdown', this.onDown);
+    canvas.addEventListener('pointermove', this.onMove);
+    window.addEventListener('pointerup', this.onUp);
+    window.addEventListener('pointercancel', this.onUp);
+  }
+
+  stop() {
+    const canvas = this.context.canvas;
+    canvas.style.touchAction = '';
+    canvas.removeEventListener('pointerdown', this.onDown);
+    canvas.removeEventListener('pointermove', this.onMove);
+    window.removeEventListener('pointerup', this.onUp);
+    window.removeEventListener('pointercancel', this.onUp);
+    this.touches.clear();
+    this.hands.clear();
+  }
+
+  reset() {
+    this.hands.clear();
+  }
+
+  // 手指按下即視為握拳，點中雀鳥便可在握拳模式下捕捉
+  update() {
+    const result: TrackedHand[] = [];
+    this.touches.forEach((touch, pointerId) => {
+      const hand = nextHand(this.hands.get(pointerId), pointerId, touch.side, touch.x, touch.y, 0);
+      this.hands.set(pointerId, hand);
+      result.push(hand);
+    });
+    return result;
+  }
+}
+
+// 方向鍵會捲動頁面，空白鍵會觸發焦點所在的按鈕，遊戲中須攔截
+const isBrowserKey = (code: string) => code.startsWith('Arrow') || code === 'Space';
+
+export class KeyboardInputProvider implements InputProvider {
+  readonly kind = InputKind.KEYBOARD;
+  private pressed = new Set<string>();
+  private hands: Record<HandSide, TrackedHand>;
+
+  // WASD 控制左手、方向鍵控制右手；左 Shift / 空白鍵分別令左右手握拳
+  private static readonly KEYS: Record<HandSide, { up: string; down: string; left: string; right: string; grasp: string }> = {
+    Left: { up: 'KeyW', down: 'KeyS', left: 'KeyA', right: 'KeyD', grasp: 'ShiftLeft' },
+    Right: { up: 'ArrowUp', down: 'ArrowDown', left: 'ArrowLeft', right: 'ArrowRight', grasp: 'Space' },
+  };
+
+  constructor(private context: InputContext) {
+    this.hands = {
+      Left: nextHand(undefined, 1, 'Left', context.width * 0.3, context.height * 0.5, 1),
+      Right: nextHand(undefined, 2, 'Right', context.width * 0.7, context.height * 0.5, 1),
+    };
+  }
+
+  private onKeyDown = (e: KeyboardEvent) => {
+    if (e.target instanceof HTMLInputElement) return;
+    this.pressed.add(e.code);
+    if (isBrowserKey(e.code)) e.preventDefault();
+  };
+  private onKeyUp = (e: KeyboardEvent) => {
+    this.pressed.delete(e.code);
+    if (!(e.target instanceof HTMLInputElement) && isBrowserKey(e.code)) e.preventDefault();
+  };
+
+  start() {
+    window.addEventListener('keydown', this.onKeyDown);
+    window.addEventListener('keyup', this.onKeyUp);
+  }
+
+  stop() {
+    window.removeEventListener('keydown', this.onKeyDown);
+    window.removeEventListener('keyup', this.onKeyUp);
+    this.pressed.clear();
+  }
+
+  reset() {
+    (['Left', 'Right'] as HandSide[]).forEach(side => {
+      const { id, x, y } = this.hands[side];
+      this.hands[side] = nextHand(undefined, id, side, x, y, 1);
+    });
+  }
+
+  update() {
+    (['Left', 'Right'] as HandSide[]).forEach(side => {
+      const keys = KeyboardInputProvider.KEYS[side];
+      const prev = this.hands[side];
+      const dx = (this.pressed.has(keys.right) ? 1 : 0) - (this.pressed.has(keys.left) ? 1 : 0);
+      const dy = (this.pressed.has(keys.down) ? 1 : 0) - (this.pressed.has(keys.up) ? 1 : 0);
+      const x = Math.min(this.context.width, Math.max(0, prev.x + dx * KEYBOARD_SPEED));
+      const y = Math.min(this.context.height, Math.max(0, prev.y + dy * KEYBOARD_SPEED));
+      this.hands[side] = nextHand(prev, prev.id, side, x, y, this.pressed.has(keys.grasp) ? 0 : 1);
+    });
+    return [this.hands.Left, this.hands.Right];
+  }
+}
+
+export interface ScriptedHandPose {
+  side: HandSide;
+  x: number;
+  y: number;
+  openness?: number;
+}
+
+export interface ScriptedKeyframe {
+  t: number; // ms，由 start() 起計
+  hands: ScriptedHandPose[];
+}
+
+// 沒有提供腳本時，雙手在各自半邊畫圈，用於示範及無鏡頭測試
+function defaultPoses(t: number, width: number, height: number): ScriptedHandPose[] {
+  const phase = t / 1000;
+  return [
+    { side: 'Left', x: width * (0.3 + 0.15 * Math.cos(phase)), y: height * (0.45 + 0.25 * Math.sin(phase)), openness: 1 },
+    { side: 'Right', x: width * (0.7 - 0.15 * Math.cos(phase * 0.8)), y: height * (0.45 + 0.25 * Math.sin(phase * 0.8)), openness: 1 },
+  ];
+}
+
+function interpolatePoses(keyframes: ScriptedKeyframe[], t: number): ScriptedHandPose[] {
+  const duration = keyframes[keyframes.length - 1].t;
+  const local = duration > 0 ? t % duration : 0;
+  const nextIdx = keyframes.findIndex(k => k.t >= local);
+  if (nextIdx <= 0) return keyframes[Math.max(0, nextIdx)].hands;
+  const a = keyframes[nextIdx - 1];
+  const b = keyframes[nextIdx];
+  const ratio = (local - a.t) / Math.max(1, b.t - a.t);
+  return a.hands.map(pa => {
+    const pb = b.hands.find(p => p.side === pa.side) ?? pa;
+    const lerp = (from: number, to: number) => from + (to - from) * ratio;
+    return { side: pa.side, x: lerp(pa.x, pb.x), y: lerp(pa.y, pb.y), openness: lerp(pa.openness ?? 1, pb.openness ?? 1) };
+  });
+}
+
+export class ScriptedInputProvider implements InputProvider {
+  readonly kind = InputKind.SCRIPTED;
+  private startTime: number | null = null;
+  private hands = new Map<HandSide, TrackedHand>();
+
+  constructor(private context: InputContext, private keyframes: ScriptedKeyframe[] = []) {}
+
+  start() {
+    this.reset();
+  }
+
+  stop() {}
+
+  reset() {
+    this.startTime = null;
+    this.hands.clear();
+  }
+
+  update(now: number) {
+    if (this.startTime === null) this.startTime = now;
+    const t = now - this.startTime;
+    const poses = this.keyframes.length > 0 ? interpolatePoses(this.keyframes, t) : defaultPoses(t, this.context.width, this.context.height);
+    return poses.map(pose => {
+      const hand = nextHand(this.hands.get(pose.side), pose.side === 'Left' ? 1 : 2, pose.side, pose.x, pose.y, pose.openness ?? 1);
+      this.hands.set(pose.side, hand);
+      return hand;
+    });
+  }
+}
+
+export function createInputProvider(kind: InputKind, context: InputContext, filter: TrackingFilter): InputProvider {
+  switch (kind) {
+    case InputKind.MOUSE: return new MouseInputProvider(context);
+    case InputKind.TOUCH: return new TouchInputProvider(context);
+    case InputKind.KEYBOARD: return new KeyboardInputProvider(context);
+    case InputKind.SCRIPTED: return new ScriptedInputProvider(context);
+    default: return new CameraInputProvider(context, filter);
+  }
+}
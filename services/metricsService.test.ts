@@ -0,0 +1,37 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { metricsService } from './metricsService';
+import { GameObject, GameObjectType, HandSide } from '../types';
+
+const bird = (id: string, x: number, field: HandSide, spawnedAt: number): GameObject => ({
+  id, type: GameObjectType.BIRD, x, y: 300, radius: 40, speedX: 0, speedY: 0, color: '', caught: false, emoji: '', flapPhase: 0, spawnedAt, field
+});
+const hand = { id: 1, x: 0, y: 0, side: 'Left' as HandSide };
+
+describe('metricsService reaction by field', () => {
+  beforeEach(() => {
+    metricsService.startSession();
+    metricsService.tick(0);
+  });
+
+  it('credits a catch to the side the target appeared on, not where it was caught', () => {
+    // 左邊出現、飛過中線後才被捕捉的慢反應，仍算在左邊
+    const slow = bird('a', 900, 'Left', 0);
+    const fast = bird('b', 1000, 'Right', 2000);
+    metricsService.tick(2500);
+    metricsService.logCatch(fast, hand);
+    metricsService.tick(3000);
+    metricsService.logCatch(slow, hand);
+
+    const summary = metricsService.getSummary();
+    expect(summary.reactionByField).toEqual({ Left: 3000, Right: 500 });
+    expect(summary.reactionAsymmetryMs).toBe(2500);
+  });
+
+  it('leaves a side without catches empty instead of scoring it zero', () => {
+    metricsService.tick(1200);
+    metricsService.logCatch(bird('a', 200, 'Left', 0), hand);
+    const summary = metricsService.getSummary();
+    expect(summary.reactionByField).toEqual({ Left: 1200, Right: null });
+    expect(summary.reactionAsymmetryMs).toBeNull();
+  });
+});
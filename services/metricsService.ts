@@ -0,0 +1,245 @@
+import { CANVAS_HEIGHT, CANVAS_WIDTH } from '../constants';
+import { isTargetType } from './objectRegistry';
+import { GameObject, HandHeatmap, HandSide, ReachBounds, SessionEvent, SessionEventType, SessionSummary, SetResult } from '../types';
+
+export interface HandSample {
+  id: number;
+  x: number;
+  y: number;
+  side: HandSide;
+}
+
+interface TrailPoint {
+  t: number;
+  x: number;
+  y: number;
+}
+
+// 每隻手只保留最近 15 秒的軌跡，足夠計算單次捕捉的路徑
+const TRAIL_WINDOW_MS = 15000;
+// 熱圖格網大小 (16:9)
+const HEATMAP_COLS = 32;
+const HEATMAP_ROWS = 18;
+
+const mean = (values: number[]) => values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : null;
+
+const emptyVisits = () => ({ Left: new Array(HEATMAP_COLS * HEATMAP_ROWS).fill(0), Right: new Array(HEATMAP_COLS * HEATMAP_ROWS).fill(0) });
+
+class MetricsService {
+  private events: SessionEvent[] = [];
+  private trails = new Map<number, TrailPoint[]>();
+  private reach: Record<HandSide, ReachBounds | null> = { Left: null, Right: null };
+  private visits: Record<HandSide, number[]> = emptyVisits();
+  private startTime: number | null = null;
+  private pausedAt: number | null = null;
+  private pausedTotal: number = 0;
+  private frameTime: number = 0;
+  private sets: SetResult[] = [];
+  private setStartedAt: number | null = null;
+  private autoPausedAt: number | null = null;
+  private autoPauses: number = 0;
+  private autoPausedTotal: number = 0;
+
+  // 每幀開始時由遊戲迴圈提供時間，重播時使用錄製的時間戳
+  tick(now: number) {
+    this.frameTime = now;
+    if (this.startTime === null) this.startTime = now;
+  }
+
+  startSession() {
+    this.events = [];
+    this.trails.clear();
+    this.reach = { Left: null, Right: null };
+    this.visits = emptyVisits();
+    this.startTime = null; // 於下一幀開始計時
+    this.pausedAt = null;
+    this.pausedTotal = 0;
+    this.sets = [];
+    this.setStartedAt = null;
+    this.autoPausedAt = null;
+    this.autoPauses = 0;
+    this.autoPausedTotal = 0;
+  }
+
+  // 分組訓練：標記一組的開始與結束，結束時計算該組結果
+  startSet() {
+    this.setStartedAt = this.now();
+  }
+
+  endSet() {
+    if (this.setStartedAt === null) return;
+    const startMs = this.setStartedAt;
+    const endMs = this.now();
+    const stats = this.countBirds(this.events.filter(e => e.t >= startMs && e.t <= endMs));
+    this.sets.push({ index: this.sets.length, startMs, endMs, ...stats });
+    this.setStartedAt = null;
+  }
+
+  // 目前這一組已捕捉的雀鳥數量
+  getSetCatches() {
+    if (this.setStartedAt === null) return 0;
+    const since = this.setStartedAt;
+    return this.events.filter(e => e.t >= since && e.type === SessionEventType.CATCH && isTargetType(e.objectType)).length;
+  }
+
+  isPaused() {
+    return this.pausedAt !== null;
+  }
+
+  pause() {
+    if (this.pausedAt === null) this.pausedAt = this.frameTime;
+  }
+
+  resume() {
+    if (this.pausedAt === null) return;
+    this.pausedTotal += this.frameTime - this.pausedAt;
+    this.pausedAt = null;
+  }
+
+  // 每幀開始時同步自動暫停狀態，以幀的時間戳計算暫停長度
+  setAutoPaused(paused: boolean) {
+    if (paused && this.autoPausedAt === null) {
+      this.autoPausedAt = this.frameTime;
+      this.autoPauses++;
+    } else if (!paused && this.autoPausedAt !== null) {
+      this.autoPausedTotal += this.frameTime - this.autoPausedAt;
+      this.autoPausedAt = null;
+    }
+  }
+
+  // 遊戲時鐘 (ms)，不計暫停時間
+  now() {
+    if (this.startTime === null) return 0;
+    const end = this.pausedAt ?? this.frameTime;
+    return end - this.startTime - this.pausedTotal;
+  }
+
+  recordHands(hands: HandSample[]) {
+    const t = this.now();
+    const activeIds = new Set<number>();
+    hands.forEach(h => {
+      activeIds.add(h.id);
+      const trail = this.trails.get(h.id) ?? [];
+      trail.push({ t, x: h.x, y: h.y });
+      while (trail.length > 0 && trail[0].t < t - TRAIL_WINDOW_MS) trail.shift();
+      this.trails.set(h.id, trail);
+
+      const r = this.reach[h.side];
+      this.reach[h.side] = r
+        ? { minX: Math.min(r.minX, h.x), maxX: Math.max(r.maxX, h.x), minY: Math.min(r.minY, h.y), maxY: Math.max(r.maxY, h.y) }
+        : { minX: h.x, maxX: h.x, minY: h.y, maxY: h.y };
+
+      const col = Math.min(HEATMAP_COLS - 1, Math.max(0, Math.floor((h.x / CANVAS_WIDTH) * HEATMAP_COLS)));
+      const row = Math.min(HEATMAP_ROWS - 1, Math.max(0, Math.floor((h.y / CANVAS_HEIGHT) * HEATMAP_ROWS)));
+      this.visits[h.side][row * HEATMAP_COLS + col]++;
+    });
+    for (const id of this.trails.keys()) {
+      if (!activeIds.has(id)) this.trails.delete(id);
+    }
+  }
+
+  logSpawn(obj: GameObject) {
+    this.push({ type: SessionEventType.SPAWN, objectId: obj.id, objectType: obj.type, x: obj.x, y: obj.y, ...(obj.field && { field: obj.field }) });
+  }
+
+  logCatch(obj: GameObject, hand: HandSample, compensated = false) {
+    const { pathLength, peakSpeed } = this.measureTrail(hand.id, obj.spawnedAt);
+    this.push({
+      type: SessionEventType.CATCH, objectId: obj.id, objectType: obj.type, x: obj.x, y: obj.y, side: hand.side,
+      reactionMs: this.now() - obj.spawnedAt, handPathLength: pathLength, handPeakSpeed: peakSpeed,
+      ...(obj.field && { field: obj.field }), ...(compensated && { compensated: true })
+    });
+  }
+
+  // 代償動作下的觸碰 (不計算捕捉時)
+  logCompensation(obj: GameObject, hand: HandSample) {
+    this.push({ type: SessionEventType.COMPENSATED, objectId: obj.id, objectType: obj.type, x: obj.x, y: obj.y, side: hand.side });
+  }
+
+  logBombHit(obj: GameObject, hand: HandSample) {
+    this.push({ type: SessionEventType.BOMB_HIT, objectId: obj.id, objectType: obj.type, x: obj.x, y: obj.y, side: hand.side });
+  }
+
+  logWrongHand(obj: GameObject, hand: HandSample) {
+    this.push({ type: SessionEventType.WRONG_HAND, objectId: obj.id, objectType: obj.type, x: obj.x, y: obj.y, side: hand.side });
+  }
+
+  logEscape(obj: GameObject, x: number, y: number) {
+    this.push({ type: SessionEventType.ESCAPE, objectId: obj.id, objectType: obj.type, x, y, ...(obj.field && { field: obj.field }) });
+  }
+
+  getEvents(): SessionEvent[] {
+    return [...this.events];
+  }
+
+  getSummary(): SessionSummary {
+    const catches = this.events.filter(e => isTargetType(e.objectType) && e.type === SessionEventType.CATCH);
+
+    return {
+      durationMs: this.now(),
+      ...this.countBirds(this.events),
+      wrongHandTouches: this.events.filter(e => e.type === SessionEventType.WRONG_HAND).length,
+      catchesBySide: {
+        Left: catches.filter(e => e.side === 'Left').length,
+        Right: catches.filter(e => e.side === 'Right').length
+      },
+      reach: { Left: this.reach.Left && { ...this.reach.Left }, Right: this.reach.Right && { ...this.reach.Right } },
+      sets: this.sets.map(set => ({ ...set })),
+      heatmap: this.getHeatmap(),
+      ...this.getReactionByField(catches),
+      autoPauses: this.autoPauses,
+      autoPausedMs: this.autoPausedTotal + (this.autoPausedAt === null ? 0 : this.frameTime - this.autoPausedAt),
+      compensatedReaches: this.events.filter(e => e.type === SessionEventType.COMPENSATED || e.compensated).length
+    };
+  }
+
+  getHeatmap(): HandHeatmap {
+    return { cols: HEATMAP_COLS, rows: HEATMAP_ROWS, visits: { Left: [...this.visits.Left], Right: [...this.visits.Right] } };
+  }
+
+  // 按目標出現的畫面半邊計算反應時間，用於評估半側忽略；飛過中線才被捕捉的目標仍算在出現的一側
+  private getReactionByField(catches: SessionEvent[]) {
+    const meanFor = (side: HandSide) => mean(catches.filter(e => e.field === side).flatMap(e => e.reactionMs ?? []));
+    const reactionByField = { Left: meanFor('Left'), Right: meanFor('Right') };
+    return {
+      reactionByField,
+      reactionAsymmetryMs: reactionByField.Left !== null && reactionByField.Right !== null ? reactionByField.Left - reactionByField.Right : null
+    };
+  }
+
+  private countBirds(events: SessionEvent[]) {
+    const birdEvents = events.filter(e => isTargetType(e.objectType));
+    const catches = birdEvents.filter(e => e.type === SessionEventType.CATCH);
+    const escapes = birdEvents.filter(e => e.type === SessionEventType.ESCAPE);
+    const resolved = catches.length + escapes.length;
+    const reactionTimes = catches.flatMap(e => e.reactionMs ?? []);
+    return {
+      birdsSpawned: birdEvents.filter(e => e.type === SessionEventType.SPAWN).length,
+      birdsCaught: catches.length,
+      birdsEscaped: escapes.length,
+      bombHits: events.filter(e => e.type === SessionEventType.BOMB_HIT).length,
+      successRate: resolved > 0 ? catches.length / resolved : null,
+      meanReactionMs: mean(reactionTimes)
+    };
+  }
+
+  private push(event: Omit<SessionEvent, 't'>) {
+    this.events.push({ t: this.now(), ...event });
+  }
+
+  // 計算該手自物件出現後的移動距離與峰值速度
+  private measureTrail(handId: number, since: number) {
+    const trail = (this.trails.get(handId) ?? []).filter(p => p.t >= since);
+    let pathLength = 0;
+    let peakSpeed = 0;
+    for (let i = 1; i < trail.length; i++) {
+      const d = Math.hypot(trail[i].x - trail[i - 1].x, trail[i].y - trail[i - 1].y);
+      const dt = trail[i].t - trail[i - 1].t;
+      pathLength += d;
+      if (dt > 0) peakSpeed = Math.max(peakSpeed, (d / dt) * 1000);
+    }
+    return { pathLength, peakSpeed };
+  }
+}
+
+export const metricsService = new MetricsService();
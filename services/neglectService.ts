@@ -0,0 +1,67 @@
+import { GameSettings, HandSide } from '../types';
+import { otherSide } from './handRules';
+
+// 半側忽略訓練：出鳥偏向被忽略的一側，並按該側的察覺時間調整提示強度
+
+export type NeglectPlan = Pick<GameSettings, 'neglectedSide' | 'neglectSpawnBias'>;
+
+// 以每側最近若干個目標估計察覺時間
+const LATENCY_WINDOW = 8;
+const LATENCY_MIN_SAMPLES = 3;
+// 目標飛走時以此作為察覺時間
+const ESCAPE_LATENCY_MS = 5000;
+// 被忽略側比另一側慢此倍數或以上時，提示最強
+const FULL_CUE_RATIO = 1.6;
+// 提示最強時被忽略側目標的速度倍數
+const SLOWEST_SPEED = 0.6;
+
+// 物件位於畫面哪一半 (與遊戲畫面相同方向)
+export const fieldSide = (x: number, width: number): HandSide => x < width / 2 ? 'Left' : 'Right';
+
+const mean = (values: number[]) => values.length >= LATENCY_MIN_SAMPLES ? values.reduce((a, b) => a + b, 0) / values.length : null;
+
+class NeglectService {
+  private plan: NeglectPlan | null = null;
+  private latencies: Record<HandSide, number[]> = { Left: [], Right: [] };
+
+  // plan 為 null 時關閉半側忽略訓練
+  start(plan: NeglectPlan | null) {
+    this.plan = plan;
+    this.latencies = { Left: [], Right: [] };
+  }
+
+  isEnabled() {
+    return this.plan !== null;
+  }
+
+  getSide() {
+    return this.plan?.neglectedSide ?? null;
+  }
+
+  getSpawnBias() {
+    return this.plan?.neglectSpawnBias ?? 0.5;
+  }
+
+  // 目標被捕捉或飛走時呼叫；side 為目標出現的一側，飛走時 reactionMs 為 null
+  recordOutcome(side: HandSide, reactionMs: number | null) {
+    const values = this.latencies[side];
+    values.push(reactionMs ?? ESCAPE_LATENCY_MS);
+    if (values.length > LATENCY_WINDOW) values.shift();
+  }
+
+  // 1 為最強提示，0 為不再需要提示；資料不足時維持最強
+  getCueStrength() {
+    if (!this.plan) return 0;
+    const neglected = mean(this.latencies[this.plan.neglectedSide]);
+    const attended = mean(this.latencies[otherSide(this.plan.neglectedSide)]);
+    if (neglected === null || attended === null) return 1;
+    return Math.min(1, Math.max(0, (neglected / attended - 1) / (FULL_CUE_RATIO - 1)));
+  }
+
+  // 被忽略側目標的速度倍數，隨提示減弱回復正常
+  getSpeedScale() {
+    return 1 - (1 - SLOWEST_SPEED) * this.getCueStrength();
+  }
+}
+
+export const neglectService = new NeglectService();
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { OBJECT_TYPES, SpawnContext, hasLeftScreen } from './objectRegistry';
+import { createRandom } from './random';
+import { GameObject, GameObjectType } from '../types';
+
+const WIDTH = 1280;
+const HEIGHT = 720;
+
+const at = (x: number, y: number, speedX: number, speedY: number): GameObject => ({
+  id: 'a', type: GameObjectType.BIRD, x, y, radius: 40, speedX, speedY, color: '', caught: false, emoji: '', flapPhase: 0, spawnedAt: 0
+});
+
+describe('hasLeftScreen', () => {
+  it('counts a target as gone once it is fully past an edge and still moving away', () => {
+    expect(hasLeftScreen(at(-41, 300, -2, 0), WIDTH, HEIGHT)).toBe(true);
+    expect(hasLeftScreen(at(WIDTH + 41, 300, 2, 0), WIDTH, HEIGHT)).toBe(true);
+    expect(hasLeftScreen(at(600, -41, 0, 2), WIDTH, HEIGHT)).toBe(true);
+    expect(hasLeftScreen(at(600, HEIGHT + 41, 0, -2), WIDTH, HEIGHT)).toBe(true);
+  });
+
+  it('keeps a target that is still partly visible', () => {
+    expect(hasLeftScreen(at(-39, 300, -2, 0), WIDTH, HEIGHT)).toBe(false);
+    expect(hasLeftScreen(at(600, HEIGHT + 39, 0, -2), WIDTH, HEIGHT)).toBe(false);
+  });
+
+  it('keeps a target that is flying in from off screen', () => {
+    expect(hasLeftScreen(at(-60, 300, 3, 0), WIDTH, HEIGHT)).toBe(false);
+    expect(hasLeftScreen(at(600, HEIGHT + 60, 0, 2), WIDTH, HEIGHT)).toBe(false);
+    expect(hasLeftScreen(at(600, -60, 0, -2), WIDTH, HEIGHT)).toBe(false);
+  });
+});
+
+describe('bird side entries', () => {
+  const playArea = { minX: 400, maxX: 900, minY: 150, maxY: 450 };
+  const ctx: SpawnContext = {
+    random: createRandom(7), radius: 40, speed: 1, playArea, trainedSide: null, sideBias: 0.5, width: WIDTH, height: HEIGHT
+  };
+
+  it('fly in and out off screen while staying within the play area height across its width', () => {
+    const sideEntries = Array.from({ length: 200 }, () => OBJECT_TYPES[GameObjectType.BIRD].spawn(ctx)).filter(m => m.y !== HEIGHT + 40);
+    expect(sideEntries.length).toBeGreaterThan(100);
+    sideEntries.forEach(motion => {
+      const obj = at(motion.x, motion.y, motion.speedX, motion.speedY);
+      expect([-40, WIDTH + 40]).toContain(obj.x);
+      // 直線飛行直至飛出畫面，橫越可達範圍期間不會超出其上下邊界
+      let frames = 0;
+      while (!hasLeftScreen(obj, WIDTH, HEIGHT) && frames < 10000) {
+        obj.x += obj.speedX; obj.y -= obj.speedY; frames++;
+        if (obj.x >= playArea.minX && obj.x <= playArea.maxX) {
+          expect(obj.y).toBeGreaterThanOrEqual(playArea.minY - 1e-6);
+          expect(obj.y).toBeLessThanOrEqual(playArea.maxY + 1e-6);
+        }
+      }
+      expect(frames).toBeLessThan(10000);
+      expect(obj.x < -40 || obj.x > WIDTH + 40 || obj.y < -40 || obj.y > HEIGHT + 40).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,222 @@
+import { OBJECT_RADIUS } from '../constants';
+import { GameObject, GameObjectType, HandSide, ReachBounds } from '../types';
+import { audioService } from './audioService';
+import { RandomFn } from './random';
+import { MessageKey } from './i18n';
+
+// 物件種類登記表：每種物件在此宣告出現比重、移動方式、大小、分數、生命效果、音效與繪製方法
+
+// target: 計入成功率的目標；bonus: 額外獎勵，飛走不算失誤；hazard: 任何一隻手碰到即觸發
+export type ObjectRole = 'target' | 'bonus' | 'hazard';
+
+export interface SpawnContext {
+  random: RandomFn; // 種子亂數，確保出鳥序列可重現
+  radius: number;
+  speed: number; // 目前難度下的速度倍數
+  playArea: ReachBounds | null;
+  trainedSide: HandSide | null; // 出生位置偏向的一側
+  sideBias: number; // 落在 trainedSide 的機率
+  width: number;
+  height: number;
+}
+
+export interface Motion {
+  x: number;
+  y: number;
+  speedX: number;
+  speedY: number;
+}
+
+export interface ObjectTypeDef {
+  label: MessageKey;
+  emojis: string[];
+  spawnWeight: number;
+  radiusScale: number;
+  speedScale: number;
+  points: number;
+  lifeEffect: number; // 捕捉或碰到時的生命變化
+  role: ObjectRole;
+  holdMs?: number; // 需要持續覆蓋的時間
+  lifetimeMs?: number; // 超過時間仍未完成即算飛走
+  followsFlightPaths?: boolean; // 可按治療師選擇的飛行路線移動
+  spawn: (ctx: SpawnContext) => Motion;
+  move?: (obj: GameObject, now: number) => void; // 預設為直線移動
+  playSound: () => void;
+  render: (ctx: CanvasRenderingContext2D, obj: GameObject, now: number) => void;
+}
+
+const HOLD_TARGET_MS = 1500;
+
+const randomBetween = (random: RandomFn, min: number, max: number) => min + random() * Math.max(0, max - min);
+// 有訓練側時，較大機率落在該側的一半範圍
+const randomOnSide = (random: RandomFn, min: number, max: number, side: HandSide | null, bias: number) => {
+  if (!side || random() >= bias) return randomBetween(random, min, max);
+  const mid = (min + max) / 2;
+  return side === 'Left' ? randomBetween(random, min, mid) : randomBetween(random, mid, max);
+};
+// 取一個速度，令物件在 frames 幀後仍落在 [min, max] 之內
+const velocityWithin = (random: RandomFn, start: number, min: number, max: number, frames: number) => (randomBetween(random, min, max) - start) / Math.max(1, frames);
+
+// 整個物件已越過畫面邊緣並繼續遠離 (由畫面外飛入的物件不算)；速度方向與移動相同：x += speedX，y -= speedY
+export function hasLeftScreen(obj: GameObject, width: number, height: number): boolean {
+  return (obj.x + obj.radius < 0 && obj.speedX < 0) || (obj.x - obj.radius > width && obj.speedX > 0)
+    || (obj.y + obj.radius < 0 && obj.speedY > 0) || (obj.y - obj.radius > height && obj.speedY < 0);
+}
+
+// --- 移動方式 (y 軸向上為正：obj.y -= speedY) ---
+
+// 由畫面頂部落下
+function dropDown({ random, radius, speed, playArea, width }: SpawnContext): Motion {
+  let x = random() * (width - radius * 2) + radius;
+  const y = -radius;
+  let speedX = (random() - 0.5) * 2 * speed;
+  const speedY = -(2 + random() * 2) * speed;
+  if (playArea) {
+    x = randomBetween(random, Math.max(radius, playArea.minX), Math.min(width - radius, playArea.maxX));
+    speedX = velocityWithin(random, x, playArea.minX, playArea.maxX, (playArea.maxY + radius) / -speedY);
+  }
+  return { x, y, speedX, speedY };
+}
+
+// 雀鳥：三成由底部飛上，其餘由左右兩側飛入
+function flyIn({ random, radius, speed, playArea, trainedSide, sideBias, width, height }: SpawnContext): Motion {
+  let x, y, speedX, speedY;
+  if (random() < 0.3) {
+    const minX = playArea ? Math.max(radius, playArea.minX) : radius;
+    const maxX = playArea ? Math.min(width - radius, playArea.maxX) : width - radius;
+    x = randomOnSide(random, minX, maxX, trainedSide, sideBias); y = height + radius;
+    speedX = (random() - 0.5) * 3 * speed; speedY = (1.5 + random() * 2) * speed;
+    if (playArea) {
+      speedX = velocityWithin(random, x, playArea.minX, playArea.maxX, (y - playArea.minY) / speedY);
+    }
+  } else {
+    // 有訓練側時，雀鳥多數從該側飛入
+    const isLeft = trainedSide
+      ? (random() < sideBias) === (trainedSide === 'Left')
+      : random() < 0.5;
+    x = isLeft ? -radius : width + radius;
+    y = random() * (height * 0.7);
+    speedX = (isLeft ? 1 : -1) * (1.5 + random() * 3) * speed; speedY = (random() - 0.5) * 1.5 * speed;
+    if (playArea) {
+      // 仍由畫面外飛入、飛出畫面才離開；只調整飛行線，令橫越可達範圍時保持在其上下界之內
+      const [nearX, farX] = isLeft ? [playArea.minX, playArea.maxX] : [playArea.maxX, playArea.minX];
+      const nearY = randomBetween(random, playArea.minY, playArea.maxY);
+      speedY = -velocityWithin(random, nearY, playArea.minY, playArea.maxY, Math.abs(farX - nearX) / Math.abs(speedX));
+      y = nearY + speedY * Math.abs(nearX - x) / Math.abs(speedX);
+    }
+  }
+  return { x, y, speedX, speedY };
+}
+
+// 在可達範圍內出現並緩慢漂移
+function hover({ random, radius, speed, playArea, trainedSide, sideBias, width, height }: SpawnContext): Motion {
+  const area = playArea ?? { minX: width * 0.15, maxX: width * 0.85, minY: height * 0.15, maxY: height * 0.75 };
+  const x = randomOnSide(random, Math.max(radius, area.minX), Math.min(width - radius, area.maxX), trainedSide, sideBias);
+  const y = randomBetween(random, Math.max(radius, area.minY), Math.min(height - radius, area.maxY));
+  return { x, y, speedX: (random() - 0.5) * 0.6 * speed, speedY: (random() - 0.5) * 0.6 * speed };
+}
+
+// 羽毛：緩慢飄落並左右擺動，訓練低速追蹤
+const swayMove = (obj: GameObject, now: number) => {
+  obj.y -= obj.speedY;
+  obj.x += obj.speedX + Math.sin((now - obj.spawnedAt) / 450) * 1.2;
+};
+
+// --- 繪製 ---
+
+function drawEmoji(ctx: CanvasRenderingContext2D, obj: GameObject, scaleX: number, scaleY: number, rotation: number) {
+  ctx.save();
+  ctx.translate(obj.x, obj.y); ctx.rotate(rotation); ctx.scale(scaleX, scaleY);
+  // 關鍵修正：iOS Emoji 渲染修復
+  ctx.fillStyle = '#000000'; // 強制重設為黑色，防止使用漸變色填滿 Emoji
+  ctx.font = `${Math.round(80 * obj.radius / OBJECT_RADIUS)}px "Apple Color Emoji", "Segoe UI Emoji", "Segoe UI Symbol", Arial`;
+  ctx.textAlign = 'center'; ctx.textBaseline = 'middle';
+  ctx.fillText(obj.emoji, 0, 0);
+  ctx.restore();
+}
+
+const renderFlapping = (ctx: CanvasRenderingContext2D, obj: GameObject) => {
+  const flap = Math.sin(Date.now() * 0.02 + obj.flapPhase);
+  let scaleX = 1 - Math.abs(flap) * 0.15;
+  if (obj.speedX > 0) scaleX *= -1;
+  drawEmoji(ctx, obj, scaleX, 1 + flap * 0.3, flap * 0.1);
+};
+
+const renderPulsing = (ctx: CanvasRenderingContext2D, obj: GameObject) => {
+  const pulse = Math.sin(Date.now() / 200) * 0.12;
+  drawEmoji(ctx, obj, 1 + pulse, 1 + pulse, 0);
+};
+
+const renderGlow = (ctx: CanvasRenderingContext2D, obj: GameObject, color: string) => {
+  ctx.save();
+  const g = ctx.createRadialGradient(obj.x, obj.y, obj.radius * 0.3, obj.x, obj.y, obj.radius * 1.6);
+  g.addColorStop(0, color); g.addColorStop(1, 'transparent');
+  ctx.fillStyle = g;
+  ctx.beginPath(); ctx.arc(obj.x, obj.y, obj.radius * 1.6, 0, Math.PI * 2); ctx.fill();
+  ctx.restore();
+};
+
+export const OBJECT_TYPES: Record<GameObjectType, ObjectTypeDef> = {
+  [GameObjectType.BIRD]: {
+    label: 'object.bird', emojis: ['🦅', '🕊️', '🐦', '🦉', '🦜'], spawnWeight: 70, radiusScale: 1, speedScale: 1,
+    points: 10, lifeEffect: 0, role: 'target', spawn: flyIn, followsFlightPaths: true,
+    playSound: () => audioService.playBirdSound(), render: renderFlapping
+  },
+  [GameObjectType.BOMB]: {
+    label: 'object.bomb', emojis: ['💣'], spawnWeight: 18, radiusScale: 1, speedScale: 1,
+    points: 0, lifeEffect: -1, role: 'hazard', spawn: dropDown,
+    playSound: () => audioService.playBombSound(), render: renderPulsing
+  },
+  [GameObjectType.GOLDEN_BIRD]: {
+    label: 'object.goldenBird', emojis: ['🐤'], spawnWeight: 5, radiusScale: 0.9, speedScale: 1.3,
+    points: 30, lifeEffect: 0, role: 'target', spawn: flyIn, followsFlightPaths: true,
+    playSound: () => audioService.playBonusSound(),
+    render: (ctx, obj) => { renderGlow(ctx, obj, 'rgba(255,215,0,0.7)'); renderFlapping(ctx, obj); }
+  },
+  [GameObjectType.HEART]: {
+    label: 'object.heart', emojis: ['❤️'], spawnWeight: 3, radiusScale: 0.9, speedScale: 0.6,
+    points: 0, lifeEffect: 1, role: 'bonus', spawn: dropDown,
+    playSound: () => audioService.playBonusSound(),
+    render: (ctx, obj) => { renderGlow(ctx, obj, 'rgba(255,82,82,0.5)'); renderPulsing(ctx, obj); }
+  },
+  [GameObjectType.FEATHER]: {
+    label: 'object.feather', emojis: ['🪶'], spawnWeight: 10, radiusScale: 1, speedScale: 0.35,
+    points: 10, lifeEffect: 0, role: 'target', spawn: dropDown, move: swayMove,
+    playSound: () => audioService.playBirdSound(),
+    render: (ctx, obj, now) => drawEmoji(ctx, obj, 1, 1, Math.sin((now - obj.spawnedAt) / 450) * 0.4)
+  },
+  [GameObjectType.HOLD]: {
+    label: 'object.hold', emojis: ['🎯'], spawnWeight: 6, radiusScale: 1.2, speedScale: 1,
+    points: 20, lifeEffect: 0, role: 'target', holdMs: HOLD_TARGET_MS, lifetimeMs: 9000, spawn: hover,
+    playSound: () => audioService.playBirdSound(),
+    render: (ctx, obj, now) => {
+      // 外圈顯示覆蓋進度
+      const progress = obj.holdStartedAt === undefined ? 0 : Math.min(1, (now - obj.holdStartedAt) / HOLD_TARGET_MS);
+      ctx.save();
+      ctx.strokeStyle = 'rgba(255,255,255,0.6)'; ctx.lineWidth = 8;
+      ctx.beginPath(); ctx.arc(obj.x, obj.y, obj.radius + 18, 0, Math.PI * 2); ctx.stroke();
+      if (progress > 0) {
+        ctx.strokeStyle = '#FFEB3B';
+        ctx.beginPath(); ctx.arc(obj.x, obj.y, obj.radius + 18, -Math.PI / 2, -Math.PI / 2 + progress * Math.PI * 2); ctx.stroke();
+      }
+      ctx.restore();
+      drawEmoji(ctx, obj, 1, 1, 0);
+    }
+  },
+};
+
+export const OBJECT_TYPE_ORDER = Object.keys(OBJECT_TYPES) as GameObjectType[];
+
+export const isTargetType = (type: GameObjectType) => OBJECT_TYPES[type].role === 'target';
+
+// 依比重從已啟用的種類中抽一種
+export function pickObjectType(random: RandomFn, enabled: GameObjectType[]): GameObjectType {
+  const candidates = enabled.length > 0 ? enabled : [GameObjectType.BIRD];
+  const total = candidates.reduce((sum, type) => sum + OBJECT_TYPES[type].spawnWeight, 0);
+  let roll = random() * total;
+  for (const type of candidates) {
+    roll -= OBJECT_TYPES[type].spawnWeight;
+    if (roll < 0) return type;
+  }
+  return candidates[candidates.length - 1];
+}
@@ -0,0 +1,87 @@
+import { DEFAULT_SETTINGS } from '../constants';
+import { GameSettings, PatientProfile, SessionRecord } from '../types';
+
+const DB_NAME = 'SKY_CATCH';
+const DB_VERSION = 1;
+const PATIENTS = 'patients';
+const SESSIONS = 'sessions';
+
+const LAST_PATIENT_KEY = 'SKY_CATCH_LAST_PATIENT';
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+class PatientStore {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(PATIENTS)) {
+            db.createObjectStore(PATIENTS, { keyPath: 'id' });
+          }
+          if (!db.objectStoreNames.contains(SESSIONS)) {
+            const sessions = db.createObjectStore(SESSIONS, { keyPath: 'id' });
+            sessions.createIndex('patientId', 'patientId');
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async store(name: string, mode: IDBTransactionMode) {
+    const db = await this.open();
+    return db.transaction(name, mode).objectStore(name);
+  }
+
+  async listPatients(): Promise<PatientProfile[]> {
+    const patients = await promisify<PatientProfile[]>((await this.store(PATIENTS, 'readonly')).getAll());
+    return patients
+      .map(p => ({ ...p, settings: { ...DEFAULT_SETTINGS, ...p.settings } }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async createPatient(name: string, settings: GameSettings): Promise<PatientProfile> {
+    const profile: PatientProfile = {
+      id: Math.random().toString(36).slice(2), name, settings, highScore: 0, createdAt: Date.now()
+    };
+    await promisify((await this.store(PATIENTS, 'readwrite')).put(profile));
+    return profile;
+  }
+
+  async savePatient(profile: PatientProfile) {
+    await promisify((await this.store(PATIENTS, 'readwrite')).put(profile));
+  }
+
+  async addSession(record: SessionRecord) {
+    await promisify((await this.store(SESSIONS, 'readwrite')).put(record));
+  }
+
+  async getSessions(patientId: string): Promise<SessionRecord[]> {
+    const index = (await this.store(SESSIONS, 'readonly')).index('patientId');
+    const sessions = await promisify<SessionRecord[]>(index.getAll(patientId));
+    return sessions.sort((a, b) => a.startedAt - b.startedAt);
+  }
+
+  // 記住上次選擇的病人，方便治療師重開頁面後繼續
+  getLastPatientId() {
+    return localStorage.getItem(LAST_PATIENT_KEY);
+  }
+
+  setLastPatientId(id: string | null) {
+    if (id) localStorage.setItem(LAST_PATIENT_KEY, id);
+    else localStorage.removeItem(LAST_PATIENT_KEY);
+  }
+}
+
+export const patientStore = new PatientStore();
@@ -0,0 +1,103 @@
+import { FilesetResolver, NormalizedLandmark, PoseLandmarker, PoseLandmarkerResult } from "@mediapipe/tasks-vision";
+import { DEFAULT_WASM_PATH, downloadModel } from './handTrackingService';
+import { PoseSample } from './compensationService';
+
+// 姿勢追蹤 (可選)：追蹤肩膀與軀幹，供代償動作偵測使用；只在治療師開啟時才載入模型
+const DEFAULT_POSE_MODEL_PATH = process.env.POSE_MODEL_PATH || "/models/pose_landmarker_lite.task";
+
+// 坐姿變化較慢，每秒偵測約十次已足夠，並減輕與手部追蹤同時運行的負擔
+const POSE_INTERVAL_MS = 100;
+// 關節可見度低於此值時視為不可見：肩膀不可見時不採用該次結果，髖部不可見時只提供肩膀
+const MIN_VISIBILITY = 0.5;
+
+// MediaPipe Pose 的關節編號 (以病人本身的左右為準)
+const LANDMARK = { leftShoulder: 11, rightShoulder: 12, leftHip: 23, rightHip: 24 };
+
+export interface PoseTrackingOptions {
+  wasmPath?: string;
+  modelPath?: string;
+}
+
+function toPoseSample(result: PoseLandmarkerResult): PoseSample | null {
+  const world = result.worldLandmarks[0];
+  const image: NormalizedLandmark[] | undefined = result.landmarks[0];
+  if (!world || !image) return null;
+  const visible = (index: number) => {
+    const landmark = image[index] as (NormalizedLandmark & { visibility?: number }) | undefined;
+    if (!landmark) return false;
+    // 目前套件版本的型別未包含 visibility，沒有提供時以是否在畫面內判斷
+    if (landmark.visibility === undefined) return landmark.x >= 0 && landmark.x <= 1 && landmark.y >= 0 && landmark.y <= 1;
+    return landmark.visibility >= MIN_VISIBILITY;
+  };
+  if (!visible(LANDMARK.leftShoulder) || !visible(LANDMARK.rightShoulder)) return null;
+  const point = (index: number) => ({ x: world[index].x, y: world[index].y, z: world[index].z });
+  // 坐在平板前時髖部通常在畫面外，此時 MediaPipe 只是估算位置，不能用來量度軀幹
+  const hipsVisible = visible(LANDMARK.leftHip) && visible(LANDMARK.rightHip);
+  return {
+    shoulders: { Left: point(LANDMARK.leftShoulder), Right: point(LANDMARK.rightShoulder) },
+    hips: hipsVisible ? { Left: point(LANDMARK.leftHip), Right: point(LANDMARK.rightHip) } : null,
+  };
+}
+
+export class PoseTrackingService {
+  private poseLandmarker: PoseLandmarker | null = null;
+  private lastVideoTime = -1;
+  private lastDetectionTime = 0;
+  private loading: Promise<boolean> | null = null;
+
+  // 重複呼叫時沿用載入中的結果；失敗後可再次呼叫重試
+  initialize(options: PoseTrackingOptions = {}) {
+    if (!this.loading) this.loading = this.load(options).then(ok => {
+      if (!ok) this.loading = null;
+      return ok;
+    });
+    return this.loading;
+  }
+
+  private async load(options: PoseTrackingOptions) {
+    const { wasmPath = DEFAULT_WASM_PATH, modelPath = DEFAULT_POSE_MODEL_PATH } = options;
+    try {
+      const modelBuffer = await downloadModel(modelPath, () => {});
+      const vision = await FilesetResolver.forVisionTasks(wasmPath);
+      try {
+        this.poseLandmarker = await this.createLandmarker(vision, modelBuffer, 'GPU');
+      } catch (gpuError) {
+        console.warn("姿勢追蹤 GPU 模式啟動失敗，改用 CPU:", gpuError);
+        this.poseLandmarker = await this.createLandmarker(vision, modelBuffer, 'CPU');
+      }
+      return true;
+    } catch (error) {
+      console.error("姿勢追蹤啟動失敗:", error);
+      return false;
+    }
+  }
+
+  isReady() {
+    return this.poseLandmarker !== null;
+  }
+
+  private createLandmarker(vision: Awaited<ReturnType<typeof FilesetResolver.forVisionTasks>>, modelBuffer: Uint8Array, delegate: 'GPU' | 'CPU') {
+    return PoseLandmarker.createFromOptions(vision, {
+      baseOptions: {
+        modelAssetBuffer: modelBuffer,
+        delegate
+      },
+      runningMode: "VIDEO",
+      numPoses: 1,
+      minPoseDetectionConfidence: 0.5,
+      minPosePresenceConfidence: 0.5,
+      minTrackingConfidence: 0.5
+    });
+  }
+
+  // 回傳 undefined 代表本幀未偵測 (節流或畫面未更新)，null 代表偵測不到人
+  detect(video: HTMLVideoElement, now: number): PoseSample | null | undefined {
+    if (!this.poseLandmarker || now - this.lastDetectionTime < POSE_INTERVAL_MS) return undefined;
+    if (video.currentTime === this.lastVideoTime || video.readyState < 2) return undefined;
+    this.lastVideoTime = video.currentTime;
+    this.lastDetectionTime = now;
+    return toPoseSample(this.poseLandmarker.detectForVideo(video, now));
+  }
+}
+
+export const poseTrackingService = new PoseTrackingService();
@@ -0,0 +1,70 @@
+import { GameSettings } from '../types';
+
+// 自動暫停：鏡頭中一段時間沒有穩定的手即暫停，手回來並保持穩定後倒數繼續
+export type PresencePlan = Pick<GameSettings, 'autoPauseSec'>;
+export type PresencePhase = 'present' | 'away' | 'returning';
+export type PresenceTransition = 'away' | 'resume';
+
+// 手回來後要保持多久才繼續
+export const RESUME_COUNTDOWN_MS = 3000;
+
+class PresenceService {
+  private plan: PresencePlan | null = null;
+  private phase: PresencePhase = 'present';
+  private lastSeenAt: number | null = null;
+  private returnedAt: number = 0;
+
+  // plan 為 null 時停用
+  start(plan: PresencePlan | null) {
+    this.plan = plan;
+    this.reset();
+  }
+
+  // 一般暫停或休息期間不計時，之後由頭計算
+  reset() {
+    this.phase = 'present';
+    this.lastSeenAt = null;
+  }
+
+  isEnabled() {
+    return this.plan !== null;
+  }
+
+  getPhase() {
+    return this.phase;
+  }
+
+  // 手回來後距離繼續的時間；未在倒數時回傳 null
+  getCountdownMs(now: number): number | null {
+    if (this.phase !== 'returning') return null;
+    return Math.max(0, RESUME_COUNTDOWN_MS - (now - this.returnedAt));
+  }
+
+  // 每幀呼叫 (以實際時間，遊戲時鐘在暫停時不會前進)；回傳本幀發生的轉換
+  update(handsPresent: boolean, now: number): PresenceTransition | null {
+    if (!this.plan) return null;
+
+    if (this.phase === 'present') {
+      if (handsPresent || this.lastSeenAt === null) this.lastSeenAt = now;
+      if (now - this.lastSeenAt < this.plan.autoPauseSec * 1000) return null;
+      this.phase = 'away';
+      return 'away';
+    }
+
+    if (!handsPresent) {
+      this.phase = 'away';
+      return null;
+    }
+    if (this.phase === 'away') {
+      this.phase = 'returning';
+      this.returnedAt = now;
+      return null;
+    }
+    if (now - this.returnedAt < RESUME_COUNTDOWN_MS) return null;
+    this.phase = 'present';
+    this.lastSeenAt = now;
+    return 'resume';
+  }
+}
+
+export const presenceService = new PresenceService();
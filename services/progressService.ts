@@ -0,0 +1,54 @@
+import { CANVAS_HEIGHT, CANVAS_WIDTH } from '../constants';
+import { SessionRecord } from '../types';
+import { getReachAreaRatio } from './calibrationService';
+
+// 跨訓練的進度指標；null 代表該次訓練沒有相關資料
+
+export interface SessionMetrics {
+  startedAt: number;
+  score: number;
+  successRate: number | null;
+  meanReactionMs: number | null;
+  catchesLeft: number;
+  catchesRight: number;
+  reachArea: number | null; // 校準範圍佔畫面比例
+}
+
+export type MetricKey = Exclude<keyof SessionMetrics, 'startedAt'>;
+
+// 基線取病人最早的幾次訓練平均
+export const BASELINE_SESSIONS = 3;
+
+export function getSessionMetrics(record: SessionRecord): SessionMetrics {
+  return {
+    startedAt: record.startedAt,
+    score: record.score,
+    successRate: record.summary.successRate,
+    meanReactionMs: record.summary.meanReactionMs,
+    catchesLeft: record.summary.catchesBySide.Left,
+    catchesRight: record.summary.catchesBySide.Right,
+    reachArea: getReachAreaRatio(record.calibration, CANVAS_WIDTH, CANVAS_HEIGHT)
+  };
+}
+
+export function filterByDate(sessions: SessionRecord[], from: number | null, to: number | null) {
+  return sessions.filter(s => (from === null || s.startedAt >= from) && (to === null || s.startedAt <= to));
+}
+
+const mean = (values: (number | null)[]) => {
+  const present = values.filter((v): v is number => v !== null);
+  return present.length > 0 ? present.reduce((a, b) => a + b, 0) / present.length : null;
+};
+
+export function getBaseline(sessions: SessionRecord[]): Record<MetricKey, number | null> | null {
+  if (sessions.length === 0) return null;
+  const early = [...sessions].sort((a, b) => a.startedAt - b.startedAt).slice(0, BASELINE_SESSIONS).map(getSessionMetrics);
+  return {
+    score: mean(early.map(m => m.score)),
+    successRate: mean(early.map(m => m.successRate)),
+    meanReactionMs: mean(early.map(m => m.meanReactionMs)),
+    catchesLeft: mean(early.map(m => m.catchesLeft)),
+    catchesRight: mean(early.map(m => m.catchesRight)),
+    reachArea: mean(early.map(m => m.reachArea))
+  };
+}
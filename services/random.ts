@@ -0,0 +1,18 @@
+// 可重現的亂數產生器 (mulberry32)：相同種子產生相同的出鳥序列
+export type RandomFn = () => number;
+
+export function createRandom(seed: number): RandomFn {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export const randomSeed = () => Math.floor(Math.random() * 4294967296);
+
+// 純視覺效果 (雲、鳥的款式、粒子) 使用的亂數，與玩法亂數分開，不影響出鳥序列
+export const cosmeticRandom: RandomFn = Math.random;
@@ -0,0 +1,267 @@
+import { CANVAS_HEIGHT, CANVAS_WIDTH } from '../constants';
+import { CompensationAction, HandRule, HandSide, SessionEvent, SessionEventType, SessionRecord } from '../types';
+import { downloadFile, fileTimestamp } from './download';
+import { MessageKey, i18n, t } from './i18n';
+import { formatAsymmetry, formatPercent, formatSeconds } from './formatters';
+
+// 訓練報告：JSON 供系統匯入、CSV 供試算表、HTML 供列印存檔，全部在瀏覽器內產生
+
+export type ReportFormat = 'json' | 'csv' | 'html';
+
+export interface ReportInfo {
+  clinicName: string;
+  patientName: string | null; // null 為訪客
+}
+
+const SIDE_LABELS: Record<HandSide, MessageKey> = { Left: 'side.left', Right: 'side.right' };
+const FIELD_LABELS: Record<HandSide, MessageKey> = { Left: 'field.left', Right: 'field.right' };
+const SIDE_COLORS: Record<HandSide, string> = { Left: '#0288D1', Right: '#EF6C00' };
+
+const HAND_RULE_LABELS: Record<HandRule, MessageKey> = {
+  [HandRule.ANY]: 'handRule.any',
+  [HandRule.AFFECTED_ONLY]: 'handRule.affectedOnly',
+  [HandRule.ALTERNATE]: 'handRule.alternate',
+  [HandRule.BILATERAL]: 'handRule.bilateral',
+};
+
+const EVENT_LABELS: Record<SessionEventType, MessageKey> = {
+  [SessionEventType.SPAWN]: 'event.spawn',
+  [SessionEventType.CATCH]: 'event.catch',
+  [SessionEventType.BOMB_HIT]: 'event.bombHit',
+  [SessionEventType.ESCAPE]: 'event.escape',
+  [SessionEventType.WRONG_HAND]: 'event.wrongHand',
+  [SessionEventType.COMPENSATED]: 'event.compensated',
+};
+
+const COMPENSATION_ACTION_LABELS: Record<CompensationAction, MessageKey> = {
+  [CompensationAction.FEEDBACK]: 'compensationAction.feedback',
+  [CompensationAction.REJECT]: 'compensationAction.reject',
+};
+
+const formatDuration = (ms: number) => t('unit.duration', { minutes: Math.floor(ms / 60000), seconds: Math.round((ms % 60000) / 1000) });
+
+const escapeHtml = (text: string) => text.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]!));
+
+export function buildJsonReport(record: SessionRecord, info: ReportInfo) {
+  return JSON.stringify({
+    version: 1,
+    generatedAt: Date.now(),
+    clinicName: info.clinicName,
+    patient: { id: record.patientId || null, name: info.patientName },
+    session: {
+      id: record.id,
+      startedAt: record.startedAt,
+      score: record.score,
+      seed: record.seed,
+      settings: record.settings,
+      calibration: record.calibration ?? null,
+      summary: record.summary,
+      difficulty: record.difficulty,
+      events: record.events
+    }
+  }, null, 2);
+}
+
+const CSV_COLUMNS: (keyof SessionEvent)[] = ['t', 'type', 'objectId', 'objectType', 'x', 'y', 'side', 'reactionMs', 'handPathLength', 'handPeakSpeed', 'field', 'compensated'];
+
+const csvCell = (value: unknown) => {
+  if (value === undefined || value === null) return '';
+  const text = typeof value === 'number' ? String(Math.round(value * 100) / 100) : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function buildEventsCsv(events: SessionEvent[]) {
+  const rows = events.map(e => CSV_COLUMNS.map(col => csvCell(e[col])).join(','));
+  return [CSV_COLUMNS.join(','), ...rows].join('\n');
+}
+
+// --- 圖表 (內嵌 SVG，列印時不需外部資源) ---
+
+const CHART_WIDTH = 320;
+const CHART_HEIGHT = 160;
+const CHART_PAD = 28;
+
+interface ChartPoint {
+  x: number;
+  y: number;
+}
+
+function lineChart(points: ChartPoint[], color: string, yLabel: (y: number) => string, xLabel: (x: number) => string) {
+  if (points.length === 0) return `<p class="empty">${t('chart.noData')}</p>`;
+  const xs = points.map(p => p.x);
+  const ys = points.map(p => p.y);
+  const minX = Math.min(...xs), maxX = Math.max(...xs, minX + 1);
+  const minY = Math.min(0, ...ys), maxY = Math.max(...ys, minY + 1e-6);
+  const sx = (x: number) => CHART_PAD + ((x - minX) / (maxX - minX)) * (CHART_WIDTH - CHART_PAD * 2);
+  const sy = (y: number) => CHART_HEIGHT - CHART_PAD - ((y - minY) / (maxY - minY)) * (CHART_HEIGHT - CHART_PAD * 2);
+  const path = points.map((p, i) => `${i === 0 ? 'M' : 'L'}${sx(p.x).toFixed(1)},${sy(p.y).toFixed(1)}`).join(' ');
+  const dots = points.length <= 60 ? points.map(p => `<circle cx="${sx(p.x).toFixed(1)}" cy="${sy(p.y).toFixed(1)}" r="2.5" fill="${color}"/>`).join('') : '';
+  return `<svg viewBox="0 0 ${CHART_WIDTH} ${CHART_HEIGHT}" class="chart">
+    <line x1="${CHART_PAD}" y1="${CHART_HEIGHT - CHART_PAD}" x2="${CHART_WIDTH - CHART_PAD}" y2="${CHART_HEIGHT - CHART_PAD}" class="axis"/>
+    <line x1="${CHART_PAD}" y1="${CHART_PAD}" x2="${CHART_PAD}" y2="${CHART_HEIGHT - CHART_PAD}" class="axis"/>
+    <text x="${CHART_PAD - 4}" y="${CHART_PAD + 4}" text-anchor="end">${yLabel(maxY)}</text>
+    <text x="${CHART_PAD - 4}" y="${CHART_HEIGHT - CHART_PAD}" text-anchor="end">${yLabel(minY)}</text>
+    <text x="${CHART_PAD}" y="${CHART_HEIGHT - 8}">${xLabel(minX)}</text>
+    <text x="${CHART_WIDTH - CHART_PAD}" y="${CHART_HEIGHT - 8}" text-anchor="end">${xLabel(maxX)}</text>
+    <path d="${path}" fill="none" stroke="${color}" stroke-width="2"/>${dots}
+  </svg>`;
+}
+
+function barChart(bars: { label: string; value: number; text: string }[], color: string) {
+  if (bars.length === 0) return `<p class="empty">${t('chart.noData')}</p>`;
+  const max = Math.max(...bars.map(b => b.value), 1e-6);
+  const slot = (CHART_WIDTH - CHART_PAD * 2) / bars.length;
+  const body = bars.map((b, i) => {
+    const h = (b.value / max) * (CHART_HEIGHT - CHART_PAD * 2);
+    const x = CHART_PAD + i * slot + slot * 0.15;
+    const y = CHART_HEIGHT - CHART_PAD - h;
+    return `<rect x="${x.toFixed(1)}" y="${y.toFixed(1)}" width="${(slot * 0.7).toFixed(1)}" height="${h.toFixed(1)}" fill="${color}" rx="3"/>
+      <text x="${(x + slot * 0.35).toFixed(1)}" y="${(y - 4).toFixed(1)}" text-anchor="middle">${b.text}</text>
+      <text x="${(x + slot * 0.35).toFixed(1)}" y="${CHART_HEIGHT - 10}" text-anchor="middle">${b.label}</text>`;
+  }).join('');
+  return `<svg viewBox="0 0 ${CHART_WIDTH} ${CHART_HEIGHT}" class="chart">
+    <line x1="${CHART_PAD}" y1="${CHART_HEIGHT - CHART_PAD}" x2="${CHART_WIDTH - CHART_PAD}" y2="${CHART_HEIGHT - CHART_PAD}" class="axis"/>${body}
+  </svg>`;
+}
+
+// 畫面比例的伸展範圍圖
+function reachMap(record: SessionRecord) {
+  const scale = CHART_WIDTH / CANVAS_WIDTH;
+  const height = CANVAS_HEIGHT * scale;
+  const rects = (['Left', 'Right'] as HandSide[]).map(side => {
+    const r = record.summary.reach[side];
+    if (!r) return '';
+    return `<rect x="${(r.minX * scale).toFixed(1)}" y="${(r.minY * scale).toFixed(1)}" width="${((r.maxX - r.minX) * scale).toFixed(1)}" height="${((r.maxY - r.minY) * scale).toFixed(1)}"
+      fill="${SIDE_COLORS[side]}" fill-opacity="0.2" stroke="${SIDE_COLORS[side]}" stroke-width="2"/>`;
+  }).join('');
+  return `<svg viewBox="0 0 ${CHART_WIDTH} ${height.toFixed(1)}" class="chart">
+    <rect x="0" y="0" width="${CHART_WIDTH}" height="${height.toFixed(1)}" fill="#E1F5FE" stroke="#B3E5FC"/>${rects}
+  </svg>
+  <p class="legend">${(['Left', 'Right'] as HandSide[]).map(side => `<span style="color:${SIDE_COLORS[side]}">■</span> ${t(SIDE_LABELS[side])}`).join('　')}</p>`;
+}
+
+export function buildHtmlReport(record: SessionRecord, info: ReportInfo) {
+  const { summary, settings } = record;
+  const catches = record.events.filter(e => e.type === SessionEventType.CATCH && e.reactionMs !== undefined);
+  const stats: [MessageKey, string][] = [
+    ['metric.score', String(record.score)],
+    ['report.duration', formatDuration(summary.durationMs)],
+    ['metric.successRate', formatPercent(summary.successRate)],
+    ['metric.meanReaction', formatSeconds(summary.meanReactionMs)],
+    ['metric.asymmetry', formatAsymmetry(summary.reactionAsymmetryMs)],
+    ['metric.caughtEscaped', `${summary.birdsCaught} / ${summary.birdsEscaped}`],
+    ['metric.bombHits', t('unit.times', { count: summary.bombHits })],
+    ['metric.wrongHand', t('unit.times', { count: summary.wrongHandTouches })],
+    ['metric.autoPauses', t('metric.autoPausesValue', { count: summary.autoPauses ?? 0, duration: formatDuration(summary.autoPausedMs ?? 0) })],
+    ['report.catchesBySide', `${summary.catchesBySide.Left} / ${summary.catchesBySide.Right}`],
+    ...(settings.poseTracking ? [['metric.compensatedReaches', t('unit.times', { count: summary.compensatedReaches ?? 0 })] as [MessageKey, string]] : []),
+  ];
+  const prescription: [MessageKey, string][] = [
+    ['settings.speed', `${i18n.formatNumber(settings.speedFactor, 1)}x`],
+    ['settings.density', `${i18n.formatNumber(settings.spawnFreq, 1)}x`],
+    ['settings.handRule', t(HAND_RULE_LABELS[settings.handRule]) + (settings.handRule === HandRule.AFFECTED_ONLY ? ` (${t(SIDE_LABELS[settings.affectedSide])})` : '')],
+    ['settings.grasp', settings.graspMode ? t('report.graspOn', { closure: formatPercent(settings.graspClosure) }) : t('common.off')],
+    ['settings.reachTarget', formatPercent(settings.reachScale)],
+    ['settings.difficulty', settings.adaptiveDifficulty ? t('report.difficultyAdaptive', { rate: formatPercent(settings.targetSuccessRate) }) : t('report.difficultyByScore')],
+    ['settings.neglect', settings.neglectMode
+      ? t('report.neglect', { side: t(FIELD_LABELS[settings.neglectedSide]), bias: formatPercent(settings.neglectSpawnBias) })
+      : t('common.off')],
+    ['settings.audioCues', settings.audioCues ? (settings.escapeWarningCue ? t('report.audioCuesWithWarning') : t('common.on')) : t('common.off')],
+    ['settings.poseTracking', settings.poseTracking
+      ? t('report.compensation', {
+        lean: t('unit.degrees', { value: settings.trunkLeanMaxDeg }),
+        hike: t('unit.centimetres', { value: settings.shoulderHikeMaxCm }),
+        action: t(COMPENSATION_ACTION_LABELS[settings.compensationAction])
+      })
+      : t('common.off')],
+    ['report.seed', String(record.seed)],
+  ];
+  const table = (rows: [MessageKey, string][]) => `<table>${rows.map(([k, v]) => `<tr><th>${t(k)}</th><td>${escapeHtml(v)}</td></tr>`).join('')}</table>`;
+  const minutes = (ms: number) => t('unit.minutesValue', { value: i18n.formatNumber(ms / 60000, 1) });
+  const patientName = info.patientName ?? t('common.guest');
+
+  const charts = [
+    { title: t('metric.reaction'), body: lineChart(catches.map(e => ({ x: e.t, y: e.reactionMs! })), '#0288D1', y => t('unit.secondsShort', { value: i18n.formatNumber(y / 1000, 1) }), minutes) },
+    { title: t('report.difficultyCurve'), body: lineChart(record.difficulty.map(s => ({ x: s.t, y: s.level })), '#7B1FA2', y => `${i18n.formatNumber(y, 1)}x`, minutes) },
+    ...(summary.sets.length > 0 ? [{
+      title: t('report.setSuccess'),
+      body: barChart(summary.sets.map(s => ({ label: t('report.setShort', { index: s.index + 1 }), value: s.successRate ?? 0, text: formatPercent(s.successRate) })), '#43A047')
+    }] : []),
+    { title: t('report.reach'), body: reachMap(record) },
+  ];
+
+  return `<!DOCTYPE html>
+<html lang="${i18n.getLocale()}">
+<head>
+<meta charset="UTF-8">
+<title>${escapeHtml(t('report.title', { name: patientName, date: i18n.formatDate(record.startedAt) }))}</title>
+<style>
+  @page { size: A4; margin: 12mm; }
+  body { font-family: system-ui, sans-serif; color: #01579B; margin: 0 auto; max-width: 760px; font-size: 12px; }
+  header { display: flex; justify-content: space-between; align-items: flex-end; border-bottom: 3px solid #4FC3F7; padding-bottom: 6px; margin-bottom: 10px; }
+  h1 { font-size: 20px; margin: 0; }
+  h2 { font-size: 13px; margin: 10px 0 4px; color: #0277BD; }
+  .meta { text-align: right; color: #546E7A; }
+  .grid { display: grid; grid-template-columns: 1fr 1fr; gap: 10px; }
+  table { width: 100%; border-collapse: collapse; }
+  th { text-align: left; color: #78909C; font-weight: 600; padding: 2px 4px; }
+  td { text-align: right; font-weight: 700; padding: 2px 4px; }
+  tr:nth-child(odd) { background: #F1F8FE; }
+  .chart { width: 100%; height: auto; }
+  .chart text { font-size: 9px; fill: #78909C; }
+  .chart .axis { stroke: #B0BEC5; }
+  .empty, .legend { color: #90A4AE; margin: 2px 0; }
+  footer { margin-top: 12px; color: #90A4AE; font-size: 10px; }
+</style>
+</head>
+<body>
+<header>
+  <div><h1>${escapeHtml(info.clinicName || t('app.name'))}</h1><div>${t('report.subtitle')}</div></div>
+  <div class="meta">
+    <div>${t('report.patient')}<b>${escapeHtml(patientName)}</b>${record.patientId ? ` (${escapeHtml(record.patientId)})` : ''}</div>
+    <div>${t('report.date', { date: i18n.formatDateTime(record.startedAt) })}</div>
+  </div>
+</header>
+<div class="grid">
+  <section><h2>${t('summary.title')}</h2>${table(stats)}</section>
+  <section><h2>${t('report.prescription')}</h2>${table(prescription)}</section>
+</div>
+<div class="grid">
+  ${charts.map(c => `<section><h2>${c.title}</h2>${c.body}</section>`).join('\n  ')}
+</div>
+<footer>${t('report.footer', { date: i18n.formatDateTime(Date.now()) })}</footer>
+</body>
+</html>`;
+}
+
+function reportFilename(record: SessionRecord, info: ReportInfo, ext: string) {
+  const name = (info.patientName ?? 'guest').replace(/[\\/:*?"<>|\s]+/g, '_');
+  return `sky-catch-${name}-${fileTimestamp(record.startedAt)}.${ext}`;
+}
+
+export function exportReport(record: SessionRecord, format: ReportFormat, info: ReportInfo) {
+  if (format === 'json') downloadFile(reportFilename(record, info, 'json'), buildJsonReport(record, info), 'application/json');
+  else if (format === 'csv') downloadFile(reportFilename(record, info, 'csv'), buildEventsCsv(record.events), 'text/csv');
+  else downloadFile(reportFilename(record, info, 'html'), buildHtmlReport(record, info), 'text/html');
+}
+
+// 以隱藏 iframe 開啟報告並呼叫列印，可於列印對話框另存為 PDF
+export function printReport(record: SessionRecord, info: ReportInfo) {
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  frame.srcdoc = buildHtmlReport(record, info);
+  frame.onload = () => {
+    const view = frame.contentWindow;
+    if (!view) {
+      frame.remove();
+      return;
+    }
+    // 列印對話框關閉後才移除；iPad Safari 的 print() 不會等對話框關閉便返回，不能以固定時間移除
+    view.addEventListener('afterprint', () => frame.remove(), { once: true });
+    view.print();
+  };
+  document.body.appendChild(frame);
+}
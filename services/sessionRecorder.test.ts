@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { SessionRecording, replaySession, replayTracking } from './sessionRecorder';
+import { metricsService } from './metricsService';
+import { difficultyService } from './difficultyService';
+import { SessionEventType } from '../types';
+import recordingJson from './__fixtures__/synthetic-session.json';
+
+// 合成的錄影 (非真實鏡頭)：以預設設定及種子 12345 執行遊戲，程式控制的左手追向最近的雀鳥，
+// 右手停在右下方；第 500 至 559 幀暫停，第 700 至 714 幀左手失去偵測。關鍵點帶有少量抖動
+const recording = recordingJson as SessionRecording;
+
+const count = (type: SessionEventType) => metricsService.getEvents().filter(e => e.type === type).length;
+
+describe('replayTracking', () => {
+  const frames = replayTracking(recording);
+
+  it('produces one tracked-hand state per recorded frame', () => {
+    expect(frames).toHaveLength(recording.frames.length);
+  });
+
+  it('keeps both hands on stable ids through the dropout', () => {
+    const seen = new Set(frames.flatMap(hands => hands.map(h => `${h.id}:${h.side}`)));
+    expect(seen).toEqual(new Set(['1:Right', '2:Left']));
+    const last = frames[frames.length - 1];
+    expect(last.map(h => h.id).sort()).toEqual([1, 2]);
+    expect(last.every(h => h.framesMissing === 0)).toBe(true);
+  });
+});
+
+describe('replaySession', () => {
+  it('reproduces the recorded catches, escapes and score through the game logic', () => {
+    expect(replaySession(recording)).toEqual({ score: 200, lives: 4, caught: 12, missed: 1 });
+    expect(count(SessionEventType.CATCH)).toBe(13);
+    expect(count(SessionEventType.ESCAPE)).toBe(1);
+    expect(count(SessionEventType.BOMB_HIT)).toBe(1);
+  });
+
+  it('excludes the paused frames from the session clock', () => {
+    replaySession(recording);
+    const { frames } = recording;
+    const pausedMs = frames[560].t - frames[500].t;
+    expect(metricsService.getSummary().durationMs).toBeCloseTo(frames[frames.length - 1].t - frames[0].t - pausedMs, 5);
+  });
+
+  it('is repeatable', () => {
+    const first = replaySession(recording);
+    const events = metricsService.getEvents().map(e => ({ ...e, objectId: '' }));
+    expect(replaySession(recording)).toEqual(first);
+    expect(metricsService.getEvents().map(e => ({ ...e, objectId: '' }))).toEqual(events);
+  });
+
+  it('logs the reach scale in the difficulty curve only when a calibration limits the play area', () => {
+    replaySession(recording);
+    expect(difficultyService.getCurve().length).toBeGreaterThan(0);
+    expect(difficultyService.getCurve().every(s => s.reachScale === null)).toBe(true);
+    const reach = { minX: 300, maxX: 900, minY: 150, maxY: 500 };
+    replaySession({ ...recording, calibration: { calibratedAt: 0, reach: { Left: reach, Right: reach } } });
+    expect(difficultyService.getCurve().every(s => s.reachScale === 1)).toBe(true);
+  });
+});
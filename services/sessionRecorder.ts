@@ -0,0 +1,176 @@
+import { CalibrationResult, GameSettings, HandSide, InputKind, TrackedHand, TrackingFilter } from '../types';
+import { HandTracker, LandmarkFrame } from './handTracker';
+import { CameraInputProvider, InputProvider } from './inputProviders';
+import { downloadFile, fileTimestamp } from './download';
+import { t } from './i18n';
+import { PoseSample, compensationService } from './compensationService';
+import { GameOutcome, GameScore, gameService } from './gameService';
+import { DEFAULT_SETTINGS } from '../constants';
+
+// 錄製每一幀的原始輸入，配合出鳥種子即可完整重現一節訓練
+
+export interface RecordedHand {
+  id: number;
+  side: HandSide;
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  openness: number;
+  framesDetected: number;
+}
+
+export interface RecordedFrame {
+  t: number; // performance.now() 時間戳
+  paused: boolean;
+  autoPaused?: true; // 因偵測不到手而暫停，只在為真時記錄
+  // 鏡頭輸入：本幀的偵測結果；未有此欄位代表本幀只做補間
+  detection?: LandmarkFrame | null;
+  // 其他輸入來源：直接記錄手部狀態
+  hands?: RecordedHand[];
+  // 姿勢追蹤：本幀的姿勢結果；未有此欄位代表本幀未偵測
+  pose?: PoseSample | null;
+}
+
+export interface SessionRecording {
+  version: 1;
+  recordedAt: number; // epoch ms
+  inputKind: InputKind;
+  seed: number;
+  settings: GameSettings;
+  calibration: CalibrationResult | null;
+  width: number;
+  height: number;
+  frames: RecordedFrame[];
+}
+
+export type RecordingMeta = Omit<SessionRecording, 'version' | 'recordedAt' | 'frames'>;
+
+// 只保留追蹤器用到的欄位 (x, y 與左右手標籤)，減少檔案大小
+function slimDetection(frame: LandmarkFrame | null): LandmarkFrame | null {
+  if (!frame || !frame.landmarks) return null;
+  return {
+    landmarks: frame.landmarks.map(set => set.map(l => ({ x: l.x, y: l.y }))),
+    handedness: frame.handedness.map(h => h.slice(0, 1).map(c => ({ categoryName: c.categoryName })))
+  };
+}
+
+export class ReplayInputProvider implements InputProvider {
+  readonly kind: InputKind;
+  private tracker: HandTracker;
+  private hands: TrackedHand[] = [];
+
+  constructor(recording: SessionRecording) {
+    this.kind = recording.inputKind;
+    this.tracker = new HandTracker({
+      width: recording.width, height: recording.height, filter: recording.settings.trackingFilter ?? TrackingFilter.ADAPTIVE
+    });
+  }
+
+  start() {}
+  stop() {}
+
+  reset() {
+    this.tracker.reset();
+    this.hands = [];
+  }
+
+  update() {
+    return this.hands;
+  }
+
+  // 重播一幀：鏡頭錄影重新經過追蹤器，其他來源則還原記錄的手部狀態
+  step(frame: RecordedFrame): TrackedHand[] {
+    if (frame.hands) {
+      this.hands = frame.hands.map(h => {
+        const prev = this.hands.find(p => p.id === h.id);
+        return { closed: false, closedAt: 0, ...prev, ...h, alpha: 1.0, framesMissing: 0 };
+      });
+    } else if (frame.detection !== undefined) {
+      this.hands = this.tracker.update(frame.detection, frame.t);
+    } else {
+      this.hands = this.tracker.predict();
+    }
+    return this.hands;
+  }
+}
+
+// 只重播追蹤部分，回傳每一幀的手部狀態，可作為回歸測試的基準資料
+export function replayTracking(recording: SessionRecording): TrackedHand[][] {
+  const provider = new ReplayInputProvider(recording);
+  return recording.frames.map(frame => provider.step(frame).map(h => ({ ...h })));
+}
+
+// 重播一幀：按遊戲迴圈的次序同步時鐘與暫停、更新姿勢與手部，再執行遊戲邏輯。
+// wasAutoPaused 為上一幀的自動暫停狀態，病人回來後須重新記錄代償偵測的基準坐姿
+export function replayFrame(frame: RecordedFrame, provider: ReplayInputProvider, wasAutoPaused: boolean): { hands: TrackedHand[]; outcome: GameOutcome | null } {
+  const autoPaused = frame.autoPaused ?? false;
+  if (wasAutoPaused && !autoPaused) compensationService.resetBaseline();
+  gameService.beginFrame(frame.t, frame.paused, autoPaused);
+  if (frame.pose !== undefined) compensationService.update(frame.pose);
+  const hands = provider.step(frame);
+  return { hands, outcome: gameService.update(hands) };
+}
+
+// 不經畫面完整重播一節訓練，回傳結束時的分數；捕捉與飛走記錄於 metricsService
+export function replaySession(recording: SessionRecording): GameScore {
+  const provider = new ReplayInputProvider(recording);
+  gameService.start(recording.seed, { ...DEFAULT_SETTINGS, ...recording.settings }, recording.calibration);
+  let autoPaused = false;
+  for (const frame of recording.frames) {
+    if (replayFrame(frame, provider, autoPaused).outcome === 'over') break;
+    autoPaused = frame.autoPaused ?? false;
+  }
+  return gameService.getScore();
+}
+
+class SessionRecorder {
+  private recording: SessionRecording | null = null;
+  private active: boolean = false;
+
+  start(meta: RecordingMeta) {
+    this.recording = { version: 1, recordedAt: Date.now(), ...meta, frames: [] };
+    this.active = true;
+  }
+
+  stop() {
+    this.active = false;
+  }
+
+  isRecording() {
+    return this.active;
+  }
+
+  getRecording() {
+    return this.recording;
+  }
+
+  recordFrame(t: number, paused: boolean, autoPaused: boolean, provider: InputProvider, hands: TrackedHand[], pose?: PoseSample | null) {
+    if (!this.active || !this.recording) return;
+    const frame: RecordedFrame = { t, paused };
+    if (autoPaused) frame.autoPaused = true;
+    if (pose !== undefined) frame.pose = pose;
+    if (provider instanceof CameraInputProvider) {
+      if (provider.lastDetection !== undefined) frame.detection = slimDetection(provider.lastDetection);
+    } else {
+      frame.hands = hands.map(h => ({
+        id: h.id, side: h.side, x: h.x, y: h.y, vx: h.vx, vy: h.vy, openness: h.openness, framesDetected: h.framesDetected
+      }));
+    }
+    this.recording.frames.push(frame);
+  }
+
+  download(recording: SessionRecording) {
+    downloadFile(`sky-catch-recording-${fileTimestamp(recording.recordedAt)}.json`, JSON.stringify(recording), 'application/json');
+  }
+
+  async load(file: File): Promise<SessionRecording> {
+    const recording = JSON.parse(await file.text()) as SessionRecording;
+    if (recording.version !== 1 || !Array.isArray(recording.frames)) {
+      throw new Error(t('replay.unsupported'));
+    }
+    return recording;
+  }
+}
+
+export const sessionRecorder = new SessionRecorder();
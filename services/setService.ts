@@ -0,0 +1,69 @@
+import { GameSettings, SetGoal } from '../types';
+
+// 分組訓練的節奏：每組完成目標後進入休息，最後一組完成即結束
+export type SetPlan = Pick<GameSettings, 'setCount' | 'setGoal' | 'setDurationSec' | 'setTargetCatches' | 'restSec'>;
+export type SetPhase = 'active' | 'rest';
+export type SetTransition = 'set-end' | 'set-start' | 'done';
+
+class SetService {
+  private plan: SetPlan | null = null;
+  private setIndex: number = 0;
+  private phase: SetPhase = 'active';
+  private phaseStartedAt: number = 0;
+
+  // plan 為 null 時使用傳統的生命模式
+  start(plan: SetPlan | null) {
+    this.plan = plan;
+    this.setIndex = 0;
+    this.phase = 'active';
+    this.phaseStartedAt = 0;
+  }
+
+  isEnabled() {
+    return this.plan !== null;
+  }
+
+  getPhase() {
+    return this.phase;
+  }
+
+  getSetIndex() {
+    return this.setIndex;
+  }
+
+  getSetCount() {
+    return this.plan?.setCount ?? 0;
+  }
+
+  // 以遊戲時鐘計算；以捕捉數量為目標的組別沒有倒數，回傳 null
+  getRemainingMs(now: number): number | null {
+    if (!this.plan) return null;
+    if (this.phase === 'rest') return Math.max(0, this.plan.restSec * 1000 - (now - this.phaseStartedAt));
+    if (this.plan.setGoal === SetGoal.CATCHES) return null;
+    return Math.max(0, this.plan.setDurationSec * 1000 - (now - this.phaseStartedAt));
+  }
+
+  // 每幀呼叫，傳入本組已捕捉數量；回傳本幀發生的轉換
+  update(now: number, setCatches: number): SetTransition | null {
+    if (!this.plan) return null;
+
+    if (this.phase === 'active') {
+      const reached = this.plan.setGoal === SetGoal.CATCHES
+        ? setCatches >= this.plan.setTargetCatches
+        : this.getRemainingMs(now) === 0;
+      if (!reached) return null;
+      if (this.setIndex + 1 >= this.plan.setCount) return 'done';
+      this.phase = 'rest';
+      this.phaseStartedAt = now;
+      return 'set-end';
+    }
+
+    if (this.getRemainingMs(now)! > 0) return null;
+    this.setIndex++;
+    this.phase = 'active';
+    this.phaseStartedAt = now;
+    return 'set-start';
+  }
+}
+
+export const setService = new SetService();
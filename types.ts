@@ -10,9 +10,57 @@ export interface HandData {
   side: 'Left' | 'Right';
 }
 
+export enum InputKind {
+  CAMERA = 'CAMERA',
+  MOUSE = 'MOUSE',
+  TOUCH = 'TOUCH',
+  KEYBOARD = 'KEYBOARD',
+  SCRIPTED = 'SCRIPTED',
+}
+
+export enum TrackingFilter {
+  ADAPTIVE = 'ADAPTIVE',
+  ONE_EURO = 'ONE_EURO',
+  KALMAN = 'KALMAN',
+}
+
+export interface TrackedHand extends HandData {
+  id: number;
+  alpha: number;
+  framesMissing: number;
+  framesDetected: number;
+  vx: number;
+  vy: number;
+  openness: number; // 0 = 握拳，1 = 張開
+  closed: boolean;
+  closedAt: number; // 最近一次合上手的遊戲時間
+}
+
 export enum GameObjectType {
   BIRD = 'BIRD',
   BOMB = 'BOMB',
+  GOLDEN_BIRD = 'GOLDEN_BIRD',
+  HEART = 'HEART',
+  FEATHER = 'FEATHER',
+  HOLD = 'HOLD',
+}
+
+export enum FlightPath {
+  STRAIGHT = 'STRAIGHT',
+  SINE = 'SINE',
+  ARC = 'ARC',
+  FIGURE_EIGHT = 'FIGURE_EIGHT',
+  MIDLINE_DIAGONAL = 'MIDLINE_DIAGONAL',
+  HOVER_DART = 'HOVER_DART',
+  VERTICAL_RISE = 'VERTICAL_RISE',
+}
+
+export interface FlightPathState {
+  type: FlightPath;
+  durationMs: number;
+  from: Point;
+  to: Point;
+  amplitude: Point; // Wave amplitude or loop radius
 }
 
 export interface GameObject {
@@ -27,6 +75,15 @@ export interface GameObject {
   caught: boolean;
   emoji: string;
   flapPhase: number; // For animation timing
+  spawnedAt: number; // Session clock (ms) when spawned
+  twoHanded?: boolean; // Bilateral bird: needs both hands within a short window
+  touches?: Partial<Record<HandSide, number>>; // Session clock of each hand's last touch
+  lastWrongTouchAt?: number; // Throttles wrong-hand feedback
+  holdStartedAt?: number; // Hold target: session clock when a hand started covering it
+  path?: FlightPathState; // Scripted flight path; straight-line movement when absent
+  escapeWarned?: boolean; // Audio cue mode: escape warning already played
+  field?: HandSide; // Screen half a target appeared in
+  compensationFlagged?: boolean; // Compensated reach already logged (reject mode)
 }
 
 export interface GameState {
@@ -35,6 +92,8 @@ export interface GameState {
   gameOver: boolean;
   lives: number;
   highScore: number;
+  caught: number;
+  missed: number;
 }
 
 // New Visual Effects Types
@@ -58,6 +117,13 @@ export interface FloatingText {
   color: string;
 }
 
+// Fading marker where a target left the play field
+export interface EscapeCue {
+  x: number;
+  y: number;
+  life: number; // 0 to 1
+}
+
 export interface Cloud {
   x: number;
   y: number;
@@ -65,3 +131,199 @@ export interface Cloud {
   scale: number;
   opacity: number;
 }
+
+// Session Metrics Types
+export type HandSide = HandData['side'];
+
+export enum SessionEventType {
+  SPAWN = 'SPAWN',
+  CATCH = 'CATCH',
+  BOMB_HIT = 'BOMB_HIT',
+  ESCAPE = 'ESCAPE',
+  WRONG_HAND = 'WRONG_HAND',
+  COMPENSATED = 'COMPENSATED',
+}
+
+export interface SessionEvent {
+  t: number; // Session clock (ms), excludes paused time
+  type: SessionEventType;
+  objectId: string;
+  objectType: GameObjectType;
+  x: number;
+  y: number;
+  side?: HandSide;
+  reactionMs?: number; // Spawn to catch
+  handPathLength?: number; // px travelled by the hand since spawn
+  handPeakSpeed?: number; // px/s
+  compensated?: boolean; // Catch made while trunk lean or shoulder hiking was flagged
+  field?: HandSide; // Screen half the target appeared in
+}
+
+export interface ReachBounds {
+  minX: number;
+  maxX: number;
+  minY: number;
+  maxY: number;
+}
+
+export interface SessionSummary {
+  durationMs: number;
+  birdsSpawned: number;
+  birdsCaught: number;
+  birdsEscaped: number;
+  bombHits: number;
+  wrongHandTouches: number;
+  successRate: number | null; // 0 to 1, null when no bird has resolved
+  meanReactionMs: number | null;
+  catchesBySide: Record<HandSide, number>;
+  reach: Record<HandSide, ReachBounds | null>;
+  sets: SetResult[]; // 分組訓練時每組的結果，可看出疲勞變化
+  heatmap?: HandHeatmap; // 舊紀錄沒有此欄位
+  reactionByField?: Record<HandSide, number | null>; // 按目標出現在畫面左/右半邊計算的平均反應時間 (舊紀錄沒有此欄位)
+  reactionAsymmetryMs?: number | null; // 左減右，正數代表左邊較慢
+  autoPauses?: number; // 因偵測不到手而自動暫停的次數 (參與度指標，舊紀錄沒有此欄位)
+  autoPausedMs?: number; // 自動暫停的總時間 (實際時間，遊戲時鐘不計暫停)
+  compensatedReaches?: number; // 以軀幹傾側或聳肩代償完成的伸手次數 (舊紀錄沒有此欄位)
+}
+
+// 手部停留位置的格網統計 (每格為幀數)，以 row-major 排列
+export interface HandHeatmap {
+  cols: number;
+  rows: number;
+  visits: Record<HandSide, number[]>;
+}
+
+export interface SetResult {
+  index: number; // 由 0 開始
+  startMs: number;
+  endMs: number;
+  birdsSpawned: number;
+  birdsCaught: number;
+  birdsEscaped: number;
+  bombHits: number;
+  successRate: number | null;
+  meanReactionMs: number | null;
+}
+
+// 介面語言 (值即 BCP 47 語言標籤)
+export enum Locale {
+  ZH_HK = 'zh-HK',
+  ZH_CN = 'zh-CN',
+  EN = 'en',
+}
+
+// Patient Profile Types
+export enum SeedMode {
+  RANDOM = 'RANDOM',
+  FIXED = 'FIXED',
+  REPEAT_LAST = 'REPEAT_LAST',
+}
+
+export enum SetGoal {
+  TIME = 'TIME', // 每組固定時間
+  CATCHES = 'CATCHES', // 每組捕捉指定數量
+}
+
+export enum MissPenalty {
+  NONE = 'NONE',
+  POINTS = 'POINTS',
+  LIFE = 'LIFE',
+}
+
+export enum HandRule {
+  ANY = 'ANY',
+  AFFECTED_ONLY = 'AFFECTED_ONLY',
+  ALTERNATE = 'ALTERNATE',
+  BILATERAL = 'BILATERAL',
+}
+
+// 偵測到代償動作時的處理方式
+export enum CompensationAction {
+  FEEDBACK = 'FEEDBACK', // 照常計算，輕柔提示坐直
+  REJECT = 'REJECT', // 不計算該次捕捉
+}
+
+export interface GameSettings {
+  speedFactor: number;
+  spawnFreq: number;
+  initialLives: number;
+  reachScale: number; // 相對於校準範圍的倍數，例如 1.1 = 110%
+  handRule: HandRule;
+  affectedSide: HandSide;
+  graspMode: boolean; // 需要握拳才算捕捉
+  graspClosure: number; // 需要合上的程度 (0 to 1)
+  trackingFilter: TrackingFilter;
+  seedMode: SeedMode;
+  fixedSeed: number;
+  setsEnabled: boolean; // 分組訓練：按組數結束，不計生命
+  setCount: number;
+  setGoal: SetGoal;
+  setDurationSec: number;
+  setTargetCatches: number;
+  restSec: number;
+  adaptiveDifficulty: boolean; // 關閉時沿用按得分遞增的難度
+  targetSuccessRate: number; // 0 to 1
+  difficultyMin: number; // 難度倍數下限 (1 = 處方設定)
+  difficultyMax: number;
+  enabledObjects: GameObjectType[]; // 治療師可開關的物件種類
+  flightPaths: FlightPath[]; // 雀鳥可使用的飛行路線
+  missPenalty: MissPenalty; // 目標飛走時的懲罰
+  missPenaltyPoints: number;
+  masterVolume: number; // 0 to 1
+  musicVolume: number;
+  sfxVolume: number;
+  masterMuted: boolean;
+  musicMuted: boolean;
+  sfxMuted: boolean;
+  audioCues: boolean; // 出鳥時按位置發出立體聲提示
+  escapeWarningCue: boolean; // 目標即將飛走時的輕柔提示
+  neglectMode: boolean; // 半側忽略訓練
+  neglectedSide: HandSide; // 被忽略的畫面一側
+  neglectSpawnBias: number; // 出現在被忽略側的機率 (0.5 to 1)
+  handMenu: boolean; // 以手部游標停留操作選單 (只限鏡頭輸入)
+  dwellMs: number; // 停留多久才按下
+  palmPause: boolean; // 遊戲中張開手掌停定即暫停
+  autoPause: boolean; // 鏡頭中沒有手時自動暫停
+  autoPauseSec: number; // 沒有偵測到手多久後暫停
+  poseTracking: boolean; // 以姿勢追蹤偵測代償動作 (只限鏡頭輸入)
+  trunkLeanMaxDeg: number; // 軀幹相對開始坐姿的傾角上限
+  shoulderHikeMaxCm: number; // 肩膀提升上限
+  compensationAction: CompensationAction;
+}
+
+export interface DifficultySample {
+  t: number; // 遊戲時鐘 (ms)
+  level: number; // 相對於處方的難度倍數
+  speedFactor: number;
+  spawnInterval: number; // 幀
+  reachScale: number | null; // 只在有校準範圍時提供
+  successRate: number | null; // 近期成功率，只在自適應模式提供
+}
+
+export interface CalibrationResult {
+  calibratedAt: number; // epoch ms
+  reach: Record<HandSide, ReachBounds | null>;
+}
+
+export interface PatientProfile {
+  id: string;
+  name: string; // 姓名或病歷編號
+  settings: GameSettings;
+  highScore: number;
+  createdAt: number;
+  calibration?: CalibrationResult;
+  lastSeed?: number;
+}
+
+export interface SessionRecord {
+  id: string;
+  patientId: string;
+  startedAt: number; // epoch ms
+  score: number;
+  seed: number; // 出鳥序列種子，可用於重做相同的練習
+  settings: GameSettings;
+  calibration?: CalibrationResult;
+  summary: SessionSummary;
+  events: SessionEvent[];
+  difficulty: DifficultySample[];
+}
@@ -1,6 +1,54 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
+import tailwindcss from 'tailwindcss';
+
+// 將 MediaPipe 的 WASM 檔案隨 App 一同發佈，病房內無需連線到 CDN
+const MEDIAPIPE_WASM_DIR = path.resolve(__dirname, 'node_modules/@mediapipe/tasks-vision/wasm');
+const MEDIAPIPE_WASM_ROUTE = 'mediapipe/wasm';
+
+function mediapipeWasm(): Plugin {
+  return {
+    name: 'mediapipe-wasm',
+    configureServer(server) {
+      server.middlewares.use(`/${MEDIAPIPE_WASM_ROUTE}`, (req, res, next) => {
+        const file = path.join(MEDIAPIPE_WASM_DIR, path.basename(req.url?.split('?')[0] ?? ''));
+        if (!fs.existsSync(file)) return next();
+        res.setHeader('Content-Type', file.endsWith('.wasm') ? 'application/wasm' : 'text/javascript');
+        fs.createReadStream(file).pipe(res);
+      });
+    },
+    generateBundle() {
+      fs.readdirSync(MEDIAPIPE_WASM_DIR).forEach(name => {
+        this.emitFile({ type: 'asset', fileName: `${MEDIAPIPE_WASM_ROUTE}/${name}`, source: fs.readFileSync(path.join(MEDIAPIPE_WASM_DIR, name)) });
+      });
+    }
+  };
+}
+
+// Tailwind 於建置時產生樣式並隨 App 發佈，不再由 CDN 即時編譯
+const TAILWIND_CONTENT = ['./index.html', './*.tsx', './components/**/*.tsx', './services/**/*.ts'];
+
+// 模型不隨 npm 安裝，須先執行 npm run fetch-model；沒有手部模型時 App 無法運作，所以直接中止建置
+const HAND_MODEL_FILE = path.resolve(__dirname, 'public/models/hand_landmarker.task');
+const POSE_MODEL_FILE = path.resolve(__dirname, 'public/models/pose_landmarker_lite.task');
+
+function requireModels(env: Record<string, string>): Plugin {
+  return {
+    name: 'require-models',
+    apply: 'build',
+    buildStart() {
+      if (!env.HAND_MODEL_PATH && !fs.existsSync(HAND_MODEL_FILE)) {
+        this.error(`找不到手部模型 ${HAND_MODEL_FILE}，請先執行 npm run fetch-model (或設定 HAND_MODEL_PATH)`);
+      }
+      // 姿勢模型只供可選的代償動作偵測使用，缺少時只作警告
+      if (!env.POSE_MODEL_PATH && !fs.existsSync(POSE_MODEL_FILE)) {
+        this.warn(`找不到姿勢模型 ${POSE_MODEL_FILE}，代償動作偵測將無法使用；請執行 npm run fetch-model (或設定 POSE_MODEL_PATH)`);
+      }
+    }
+  };
+}
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
@@ -9,10 +57,18 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), mediapipeWasm(), requireModels(env)],
+      css: {
+        postcss: {
+          plugins: [tailwindcss({ content: TAILWIND_CONTENT })]
+        }
+      },
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.MEDIAPIPE_WASM_PATH': JSON.stringify(env.MEDIAPIPE_WASM_PATH ?? ''),
+        'process.env.HAND_MODEL_PATH': JSON.stringify(env.HAND_MODEL_PATH ?? ''),
+        'process.env.POSE_MODEL_PATH': JSON.stringify(env.POSE_MODEL_PATH ?? '')
       },
       resolve: {
         alias: {